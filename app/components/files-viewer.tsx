@@ -1,7 +1,9 @@
 "use client";
 
 import { CopyButton } from "~/components/copy-button";
+import { Badge } from "~/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "~/components/ui/tabs";
+import { getFileLanguage } from "~/lib/api/output-format";
 import type { GeneratedFile } from "~/lib/api/types";
 
 interface FilesViewerProps {
@@ -31,23 +33,28 @@ export function FilesViewer({ files }: FilesViewerProps) {
 				))}
 			</TabsList>
 
-			{files.map((file) => (
-				<TabsContent
-					key={file.path}
-					value={file.path}
-					className="flex-1 min-h-0 overflow-hidden mt-4 flex flex-col"
-				>
-					<div className="relative flex min-h-0 flex-1 flex-col rounded-lg border bg-muted/50">
-						<CopyButton
-							value={file.content}
-							className="absolute top-2 right-2 z-10"
-						/>
-						<pre className="flex-1 min-h-0 overflow-auto p-4 text-sm font-mono no-scrollbar">
-							<code>{file.content}</code>
-						</pre>
-					</div>
-				</TabsContent>
-			))}
+			{files.map((file) => {
+				const language = getFileLanguage(file.path);
+				return (
+					<TabsContent
+						key={file.path}
+						value={file.path}
+						className="flex-1 min-h-0 overflow-hidden mt-4 flex flex-col"
+					>
+						<div className="relative flex min-h-0 flex-1 flex-col rounded-lg border bg-muted/50">
+							<div className="absolute top-2 right-2 z-10 flex items-center gap-2">
+								<Badge variant="secondary">{language}</Badge>
+								<CopyButton value={file.content} />
+							</div>
+							<pre className="flex-1 min-h-0 overflow-auto p-4 text-sm font-mono no-scrollbar">
+								<code data-language={language.toLowerCase()}>
+									{file.content}
+								</code>
+							</pre>
+						</div>
+					</TabsContent>
+				);
+			})}
 		</Tabs>
 	);
 }
@@ -0,0 +1,184 @@
+import { ArrowDown, ArrowUp, Plus, X } from "lucide-react";
+import { Button } from "~/components/ui/button";
+import {
+	Field,
+	FieldDescription,
+	FieldError,
+	FieldLabel,
+} from "~/components/ui/field";
+import type { SlotDefinition } from "~/lib/harness-schema";
+import {
+	findDuplicateGroupKey,
+	getGroupFieldError,
+	getListLengthError,
+} from "~/lib/slot-validation";
+import { useWizardStore } from "~/lib/store/wizard-store";
+import { SlotControl } from "./slot-control";
+
+type GroupSlotDefinition = Extract<SlotDefinition, { type: "group" }>;
+type GroupInstance = Record<string, unknown>;
+
+interface GroupSlotControlProps {
+	slotId: string;
+	slotDef: GroupSlotDefinition;
+	showError?: boolean;
+}
+
+/**
+ * Title for an instance card: its key value when set, else "<itemLabel> N".
+ */
+function getInstanceTitle(
+	slotDef: GroupSlotDefinition,
+	instance: GroupInstance,
+	index: number,
+): string {
+	const keyValue = slotDef.key ? instance[slotDef.key] : undefined;
+	if (typeof keyValue === "string" && keyValue !== "") return keyValue;
+	return `${slotDef.itemLabel ?? "Item"} ${index + 1}`;
+}
+
+export function GroupSlotControl({
+	slotId,
+	slotDef,
+	showError = false,
+}: GroupSlotControlProps) {
+	const value = useWizardStore((state) => state.slotValues[slotId]);
+	const setSlotValue = useWizardStore((state) => state.setSlotValue);
+
+	const instances: GroupInstance[] = Array.isArray(value)
+		? value
+		: slotDef.default;
+	const canAdd =
+		slotDef.maxItems === undefined || instances.length < slotDef.maxItems;
+	const lengthError = getListLengthError(slotDef, instances.length);
+	const duplicateIndex = findDuplicateGroupKey(slotDef, instances);
+	const itemLabel = slotDef.itemLabel ?? "Item";
+
+	const updateField = (index: number, fieldId: string, next: unknown) => {
+		setSlotValue(
+			slotId,
+			instances.map((instance, i) =>
+				i === index ? { ...instance, [fieldId]: next } : instance,
+			),
+		);
+	};
+
+	const removeInstance = (index: number) => {
+		setSlotValue(
+			slotId,
+			instances.filter((_, i) => i !== index),
+		);
+	};
+
+	const moveInstance = (index: number, offset: -1 | 1) => {
+		const target = index + offset;
+		// Guard: out of bounds (Early Exit)
+		if (target < 0 || target >= instances.length) return;
+		const next = [...instances];
+		[next[index], next[target]] = [next[target], next[index]];
+		setSlotValue(slotId, next);
+	};
+
+	return (
+		<Field>
+			<FieldLabel>{slotDef.label}</FieldLabel>
+			{slotDef.description && (
+				<FieldDescription>{slotDef.description}</FieldDescription>
+			)}
+
+			<div className="flex flex-col gap-3">
+				{instances.map((instance, index) => (
+					<div
+						// biome-ignore lint/suspicious/noArrayIndexKey: instances have no stable identity
+						key={index}
+						className="flex flex-col gap-4 rounded-lg border p-4"
+					>
+						<div className="flex items-center justify-between">
+							<span className="text-sm font-medium">
+								{getInstanceTitle(slotDef, instance, index)}
+							</span>
+							<div className="flex items-center gap-1">
+								<Button
+									type="button"
+									variant="ghost"
+									size="icon-sm"
+									aria-label="Move up"
+									disabled={index === 0}
+									onClick={() => moveInstance(index, -1)}
+								>
+									<ArrowUp />
+								</Button>
+								<Button
+									type="button"
+									variant="ghost"
+									size="icon-sm"
+									aria-label="Move down"
+									disabled={index === instances.length - 1}
+									onClick={() => moveInstance(index, 1)}
+								>
+									<ArrowDown />
+								</Button>
+								<Button
+									type="button"
+									variant="ghost"
+									size="icon-sm"
+									aria-label={`Remove ${itemLabel.toLowerCase()}`}
+									onClick={() => removeInstance(index)}
+								>
+									<X />
+								</Button>
+							</div>
+						</div>
+
+						{Object.entries(slotDef.fields).map(([fieldId, fieldDef]) => {
+							const fieldValue = instance[fieldId];
+							// Controls show their own value errors; add missing required values
+							const isEmpty = fieldValue === undefined || fieldValue === "";
+							const fieldError =
+								showError && isEmpty && fieldDef.type !== "model"
+									? getGroupFieldError(slotDef, fieldId, fieldDef.default)
+									: null;
+							return (
+								<div key={fieldId} className="flex flex-col gap-1">
+									<SlotControl
+										slotId={slotId}
+										slotDef={fieldDef}
+										showError={showError}
+										binding={{
+											id: `${slotId}-${index}-${fieldId}`,
+											value: fieldValue,
+											onChange: (next) => updateField(index, fieldId, next),
+										}}
+									/>
+									{fieldError && <FieldError>{fieldError}</FieldError>}
+								</div>
+							);
+						})}
+
+						{showError && index === duplicateIndex && slotDef.key && (
+							<FieldError>
+								{slotDef.fields[slotDef.key]?.label ?? slotDef.key} must be
+								unique
+							</FieldError>
+						)}
+					</div>
+				))}
+			</div>
+
+			<div>
+				<Button
+					type="button"
+					variant="outline"
+					size="sm"
+					disabled={!canAdd}
+					onClick={() => setSlotValue(slotId, [...instances, {}])}
+				>
+					<Plus data-icon="inline-start" />
+					Add {itemLabel.toLowerCase()}
+				</Button>
+			</div>
+
+			{showError && lengthError && <FieldError>{lengthError}</FieldError>}
+		</Field>
+	);
+}
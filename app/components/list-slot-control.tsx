@@ -0,0 +1,184 @@
+import { ArrowDown, ArrowUp, Plus, X } from "lucide-react";
+import { Button } from "~/components/ui/button";
+import {
+	Field,
+	FieldDescription,
+	FieldError,
+	FieldLabel,
+} from "~/components/ui/field";
+import { Input } from "~/components/ui/input";
+import { SimpleSelect } from "~/components/ui/simple-select";
+import type { ListItemDefinition, SlotDefinition } from "~/lib/harness-schema";
+import { getListItemError, getListLengthError } from "~/lib/slot-validation";
+import { useWizardStore } from "~/lib/store/wizard-store";
+
+type ListSlotDefinition = Extract<SlotDefinition, { type: "list" }>;
+type ListItemValue = string | number;
+
+interface ListSlotControlProps {
+	slotId: string;
+	slotDef: ListSlotDefinition;
+	showError?: boolean;
+}
+
+function createEmptyItem(item: ListItemDefinition): ListItemValue {
+	switch (item.type) {
+		case "number":
+			return item.min ?? 0;
+		case "enum":
+			return item.options[0];
+		case "text":
+			return "";
+	}
+}
+
+export function ListSlotControl({
+	slotId,
+	slotDef,
+	showError = false,
+}: ListSlotControlProps) {
+	const value = useWizardStore((state) => state.slotValues[slotId]);
+	const setSlotValue = useWizardStore((state) => state.setSlotValue);
+
+	const items: ListItemValue[] = Array.isArray(value) ? value : slotDef.default;
+	const canAdd =
+		slotDef.maxItems === undefined || items.length < slotDef.maxItems;
+	const lengthError = getListLengthError(slotDef, items.length);
+
+	const updateItem = (index: number, next: ListItemValue) => {
+		setSlotValue(
+			slotId,
+			items.map((item, i) => (i === index ? next : item)),
+		);
+	};
+
+	const removeItem = (index: number) => {
+		setSlotValue(
+			slotId,
+			items.filter((_, i) => i !== index),
+		);
+	};
+
+	const moveItem = (index: number, offset: -1 | 1) => {
+		const target = index + offset;
+		// Guard: out of bounds (Early Exit)
+		if (target < 0 || target >= items.length) return;
+		const next = [...items];
+		[next[index], next[target]] = [next[target], next[index]];
+		setSlotValue(slotId, next);
+	};
+
+	const renderItemInput = (item: ListItemValue, index: number) => {
+		const inputId = `${slotId}-${index}`;
+
+		if (slotDef.item.type === "enum") {
+			const options = slotDef.item.options.map((opt) => ({
+				value: opt,
+				label: opt,
+			}));
+			return (
+				<SimpleSelect
+					options={options}
+					value={String(item)}
+					onChange={(v) => updateItem(index, v)}
+					id={inputId}
+					className="flex-1"
+					triggerClassName="w-full"
+				/>
+			);
+		}
+
+		if (slotDef.item.type === "number") {
+			return (
+				<Input
+					id={inputId}
+					type="number"
+					value={item}
+					min={slotDef.item.min}
+					max={slotDef.item.max}
+					onChange={(e) => updateItem(index, Number(e.target.value))}
+				/>
+			);
+		}
+
+		return (
+			<Input
+				id={inputId}
+				value={item}
+				onChange={(e) => updateItem(index, e.target.value)}
+			/>
+		);
+	};
+
+	return (
+		<Field>
+			<FieldLabel htmlFor={`${slotId}-0`}>{slotDef.label}</FieldLabel>
+			{slotDef.description && (
+				<FieldDescription>{slotDef.description}</FieldDescription>
+			)}
+
+			<div className="flex flex-col gap-2">
+				{items.map((item, index) => {
+					const itemError = showError
+						? getListItemError(slotDef.item, item)
+						: null;
+					return (
+						// biome-ignore lint/suspicious/noArrayIndexKey: items are plain values that may repeat
+						<div key={index} className="flex flex-col gap-1">
+							<div className="flex items-center gap-1">
+								{renderItemInput(item, index)}
+								<Button
+									type="button"
+									variant="ghost"
+									size="icon-sm"
+									aria-label="Move up"
+									disabled={index === 0}
+									onClick={() => moveItem(index, -1)}
+								>
+									<ArrowUp />
+								</Button>
+								<Button
+									type="button"
+									variant="ghost"
+									size="icon-sm"
+									aria-label="Move down"
+									disabled={index === items.length - 1}
+									onClick={() => moveItem(index, 1)}
+								>
+									<ArrowDown />
+								</Button>
+								<Button
+									type="button"
+									variant="ghost"
+									size="icon-sm"
+									aria-label="Remove item"
+									onClick={() => removeItem(index)}
+								>
+									<X />
+								</Button>
+							</div>
+							{itemError && <FieldError>{itemError}</FieldError>}
+						</div>
+					);
+				})}
+			</div>
+
+			<div>
+				<Button
+					type="button"
+					variant="outline"
+					size="sm"
+					disabled={!canAdd}
+					onClick={() =>
+						setSlotValue(slotId, [...items, createEmptyItem(slotDef.item)])
+					}
+				>
+					<Plus data-icon="inline-start" />
+					Add item
+				</Button>
+			</div>
+
+			{showError && lengthError && <FieldError>{lengthError}</FieldError>}
+		</Field>
+	);
+}
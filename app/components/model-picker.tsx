@@ -10,7 +10,9 @@ import {
 	ComboboxItem,
 	ComboboxList,
 } from "~/components/ui/combobox";
+import type { ModelRequirements } from "~/lib/harness-schema";
 import { loadModels, type Model, type ModelLoader } from "~/lib/mock/catalog";
+import { getUnmetModelRequirements } from "~/lib/slot-validation";
 
 interface ModelPickerProps {
 	providerId: string;
@@ -20,6 +22,7 @@ interface ModelPickerProps {
 	loader?: ModelLoader;
 	disabled?: boolean;
 	placeholder?: string;
+	requires?: ModelRequirements; // models that miss these are shown disabled
 }
 
 export function ModelPicker({
@@ -30,6 +33,7 @@ export function ModelPicker({
 	loader = loadModels,
 	disabled = false,
 	placeholder = "Search models...",
+	requires,
 }: ModelPickerProps) {
 	const [items, setItems] = useState<Model[]>([]);
 	const [loading, setLoading] = useState(false);
@@ -184,6 +188,12 @@ export function ModelPicker({
 		return items;
 	}, [items, value, selectedModel]);
 
+	// Models without capability data cannot be checked, so they stay selectable
+	const getUnmet = (model: Model): string[] =>
+		requires && model.capabilities
+			? getUnmetModelRequirements(requires, model.capabilities)
+			: [];
+
 	// Handle selection - receives Model object, extracts ID for store
 	const handleValueChange = (model: Model | null) => {
 		if (model) {
@@ -227,18 +237,31 @@ export function ModelPicker({
 					<ComboboxEmpty>No models found.</ComboboxEmpty>
 				) : (
 					<ComboboxList>
-						{displayItems.map((model) => (
-							<ComboboxItem key={model.id} value={model}>
-								<div className="flex flex-col min-w-0">
-									<span className="truncate">{model.name}</span>
-									{model.description && (
-										<span className="text-xs text-muted-foreground truncate">
-											{model.description}
-										</span>
-									)}
-								</div>
-							</ComboboxItem>
-						))}
+						{displayItems.map((model) => {
+							const unmet = getUnmet(model);
+							return (
+								<ComboboxItem
+									key={model.id}
+									value={model}
+									disabled={unmet.length > 0}
+								>
+									<div className="flex flex-col min-w-0">
+										<span className="truncate">{model.name}</span>
+										{unmet.length > 0 ? (
+											<span className="text-xs text-amber-600 truncate">
+												Missing: {unmet.join(", ")}
+											</span>
+										) : (
+											model.description && (
+												<span className="text-xs text-muted-foreground truncate">
+													{model.description}
+												</span>
+											)
+										)}
+									</div>
+								</ComboboxItem>
+							);
+						})}
 					</ComboboxList>
 				)}
 				{hasMore && (
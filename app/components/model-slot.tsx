@@ -5,24 +5,34 @@ import { Field, FieldLabel } from "~/components/ui/field";
 import { SimpleSelect } from "~/components/ui/simple-select";
 import { createAPIModelLoader } from "~/lib/api/client";
 import type { ProviderSummary } from "~/lib/api/types";
+import type { SlotDefinition } from "~/lib/harness-schema";
 import {
-	selectDefaultProvider,
-	selectProviders,
-	useWizardStore,
-} from "~/lib/store/wizard-store";
+	describeModelRequirements,
+	isProviderAllowed,
+} from "~/lib/slot-validation";
+import { selectProviders, useWizardStore } from "~/lib/store/wizard-store";
 import { ModelPicker } from "./model-picker";
+import type { SlotBinding } from "./slot-control";
+
+type ModelSlotDefinition = Extract<SlotDefinition, { type: "model" }>;
 
 interface ModelSlotProps {
 	slotId: string;
 	showError?: boolean;
+	binding?: SlotBinding;
+	slotDef?: ModelSlotDefinition;
 }
 
-export function ModelSlot({ slotId, showError }: ModelSlotProps) {
+export function ModelSlot({
+	slotId,
+	showError,
+	binding,
+	slotDef,
+}: ModelSlotProps) {
 	const { harnessId } = useParams<{ harnessId?: string }>();
 	const providers = useWizardStore(selectProviders);
-	const defaultProvider = useWizardStore(selectDefaultProvider);
-	const slotValue = useWizardStore((s) => s.slotValues[slotId]);
-	const setSlotValue = useWizardStore((s) => s.setSlotValue);
+	const storeValue = useWizardStore((s) => s.slotValues[slotId]);
+	const setStoreValue = useWizardStore((s) => s.setSlotValue);
 	const setReturnToStep = useWizardStore((s) => s.setReturnToStep);
 	const banner = useWizardStore((s) => s.banner);
 	const dismissBanner = useWizardStore((s) => s.dismissBanner);
@@ -34,11 +44,25 @@ export function ModelSlot({ slotId, showError }: ModelSlotProps) {
 		void ensureProvidersLoaded();
 	}, [ensureProvidersLoaded]);
 
+	// Bound group fields edit a nested value; slotId still names the step
+	const slotValue = binding ? binding.value : storeValue;
+	const updateValue = (value: string | undefined) =>
+		binding ? binding.onChange(value) : setStoreValue(slotId, value);
+	const inputId = binding?.id ?? slotId;
+
+	// Only the user's providers that this slot allows can be picked
+	const eligibleProviders = useMemo(
+		() => providers.filter((id) => isProviderAllowed(slotDef ?? {}, id)),
+		[providers, slotDef],
+	);
+
 	// Extract model value (format: "providerId/modelId")
 	const modelValue = typeof slotValue === "string" ? slotValue : undefined;
 	const modelParts = modelValue?.split("/") ?? [];
-	const providerId = modelParts[0] || defaultProvider;
+	const providerId = modelParts[0] || eligibleProviders[0];
 	const modelId = modelParts.slice(1).join("/") || undefined;
+	const providerBlocked =
+		Boolean(modelParts[0]) && !isProviderAllowed(slotDef ?? {}, providerId);
 
 	// Map selected providers - keep unknown ones visible with warning!
 	interface UIProvider extends ProviderSummary {
@@ -46,7 +70,7 @@ export function ModelSlot({ slotId, showError }: ModelSlotProps) {
 	}
 
 	const sortedProviders = useMemo((): UIProvider[] => {
-		return providers
+		return eligibleProviders
 			.map((id): UIProvider => {
 				const provider = providersById[id];
 				if (provider) {
@@ -63,7 +87,7 @@ export function ModelSlot({ slotId, showError }: ModelSlotProps) {
 				};
 			})
 			.sort((a, b) => a.name.localeCompare(b.name));
-	}, [providers, providersById]);
+	}, [eligibleProviders, providersById]);
 
 	const providerOptions = useMemo(
 		() =>
@@ -78,19 +102,29 @@ export function ModelSlot({ slotId, showError }: ModelSlotProps) {
 	const handleProviderChange = (newProviderId: string | null) => {
 		if (!newProviderId) return;
 		// Clear the model when provider changes
-		setSlotValue(slotId, `${newProviderId}/`);
+		updateValue(`${newProviderId}/`);
 	};
 
 	const handleModelChange = (newModelId: string) => {
 		// Format: "providerId/modelId"
-		setSlotValue(slotId, `${providerId}/${newModelId}`);
+		updateValue(`${providerId}/${newModelId}`);
 	};
 
 	const handleEditProviders = () => {
 		setReturnToStep(slotId);
 	};
 
-	const showProviderDropdown = providers.length > 1;
+	const showProviderDropdown = eligibleProviders.length > 1;
+	const noEligibleProviders =
+		providers.length > 0 && eligibleProviders.length === 0;
+
+	// Explain a slot's provider restriction using display names where known
+	const providerName = (id: string) => providersById[id]?.name ?? id;
+	const restriction = slotDef?.allowedProviders
+		? `This slot only supports ${slotDef.allowedProviders.map(providerName).join(", ")}.`
+		: slotDef?.blockedProviders
+			? `This slot does not support ${slotDef.blockedProviders.map(providerName).join(", ")}.`
+			: undefined;
 
 	// Memoize model loader to prevent recreation on every render
 	const modelLoader = useMemo(
@@ -114,16 +148,24 @@ export function ModelSlot({ slotId, showError }: ModelSlotProps) {
 				</div>
 			)}
 
+			{/* No selected provider qualifies for this slot */}
+			{noEligibleProviders && (
+				<div className="rounded-lg border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-800 dark:border-amber-800 dark:bg-amber-950 dark:text-amber-200">
+					None of your selected providers can be used here. {restriction} Add a
+					supported provider to choose a model.
+				</div>
+			)}
+
 			{/* Provider dropdown (hidden if only one provider) */}
-			{showProviderDropdown ? (
+			{noEligibleProviders ? null : showProviderDropdown ? (
 				<Field>
-					<FieldLabel htmlFor={`${slotId}-provider`}>Provider</FieldLabel>
+					<FieldLabel htmlFor={`${inputId}-provider`}>Provider</FieldLabel>
 					<SimpleSelect
 						options={providerOptions}
 						value={providerId}
 						onChange={handleProviderChange}
 						placeholder="Select provider"
-						id={`${slotId}-provider`}
+						id={`${inputId}-provider`}
 						renderOption={(option) => (
 							<div className="flex items-center gap-2">
 								<span>{option.label}</span>
@@ -147,20 +189,32 @@ export function ModelSlot({ slotId, showError }: ModelSlotProps) {
 
 			{/* Model picker */}
 			<Field>
-				<FieldLabel htmlFor={`${slotId}-model`}>Model</FieldLabel>
+				<FieldLabel htmlFor={`${inputId}-model`}>Model</FieldLabel>
 				{providerId ? (
 					<ModelPicker
 						providerId={providerId}
 						value={modelId}
 						onChange={handleModelChange}
-						onClear={() => setSlotValue(slotId, undefined)}
+						onClear={() => updateValue(undefined)}
 						loader={modelLoader}
+						requires={slotDef?.requires}
 					/>
 				) : (
 					<p className="text-sm text-muted-foreground">
 						Select a provider first
 					</p>
 				)}
+				{slotDef?.requires && (
+					<p className="text-xs text-muted-foreground">
+						Requires {describeModelRequirements(slotDef.requires).join(", ")}
+					</p>
+				)}
+				{providerBlocked && (
+					<p className="text-sm text-destructive">
+						{providerName(modelParts[0])} can't be used for this slot.{" "}
+						{restriction}
+					</p>
+				)}
 				{/* Inline error when model required but not selected */}
 				{showError && !modelValue && (
 					<p className="text-sm text-destructive">Please select a model</p>
@@ -1,30 +1,180 @@
+import { Link2, Unlink } from "lucide-react";
+import { useState } from "react";
+import { Button } from "~/components/ui/button";
 import { Checkbox } from "~/components/ui/checkbox";
-import { Field, FieldLabel } from "~/components/ui/field";
+import {
+	Field,
+	FieldDescription,
+	FieldError,
+	FieldGroup,
+	FieldLabel,
+	FieldLegend,
+	FieldSet,
+} from "~/components/ui/field";
 import { Input } from "~/components/ui/input";
 import { SimpleSelect } from "~/components/ui/simple-select";
 import { Slider } from "~/components/ui/slider";
+import { Textarea } from "~/components/ui/textarea";
+import { getSubmissionWithDefaults } from "~/lib/api/ref-resolver";
+import { getHarness } from "~/lib/harness-registry";
 import type { SlotDefinition } from "~/lib/harness-schema";
-import { useWizardStore } from "~/lib/store/wizard-store";
+import {
+	getSelectionCountError,
+	getSlotValueError,
+	getTextError,
+} from "~/lib/slot-validation";
+import {
+	selectAllSlotValues,
+	selectHarnessId,
+	useWizardStore,
+} from "~/lib/store/wizard-store";
+import { GroupSlotControl } from "./group-slot-control";
+import { ListSlotControl } from "./list-slot-control";
 import { ModelSlot } from "./model-slot";
 
+/**
+ * Binds a control to a nested value instead of the store slot.
+ * Used by group slots to render one control per instance field.
+ */
+export interface SlotBinding {
+	id: string; // unique DOM id for the control
+	value: unknown;
+	onChange: (value: unknown) => void;
+}
+
 interface SlotControlProps {
 	slotId: string;
 	slotDef: SlotDefinition;
 	showError?: boolean;
+	binding?: SlotBinding;
+}
+
+export function SlotControl(props: SlotControlProps) {
+	// Slots with defaultFrom follow their source until the user detaches them
+	if (props.slotDef.defaultFrom && !props.binding) {
+		return <InheritedSlotControl {...props} />;
+	}
+	return <SlotInput {...props} />;
+}
+
+/**
+ * Format an inherited value for the "inherits from" summary.
+ */
+function formatInheritedValue(value: unknown): string {
+	if (value === undefined || value === "") return "not set yet";
+	if (Array.isArray(value)) return value.join(", ") || "none";
+	return String(value);
 }
 
-export function SlotControl({
+/**
+ * Shows an inheriting slot's source and current value, with a Detach
+ * action. Once detached (or set), the regular control is shown with a
+ * way to inherit again, which clears the slot's own value.
+ */
+function InheritedSlotControl({
 	slotId,
 	slotDef,
 	showError = false,
 }: SlotControlProps) {
-	const value = useWizardStore((state) => state.slotValues[slotId]);
+	const storeValue = useWizardStore((state) => state.slotValues[slotId]);
+	const slotValues = useWizardStore(selectAllSlotValues);
+	const harnessId = useWizardStore(selectHarnessId);
 	const setSlotValue = useWizardStore((state) => state.setSlotValue);
+	const clearSlot = useWizardStore((state) => state.clearSlot);
+	// Detaching a slot whose source is still empty leaves no value to store
+	const [isDetached, setIsDetached] = useState(false);
+
+	const harness = harnessId ? getHarness(harnessId) : undefined;
+	const sourceId = slotDef.defaultFrom ?? "";
+	const sourceLabel = harness?.slots[sourceId]?.label ?? sourceId;
+
+	if (storeValue !== undefined || isDetached) {
+		return (
+			<div className="flex flex-col gap-1">
+				<SlotInput slotId={slotId} slotDef={slotDef} showError={showError} />
+				<div>
+					<Button
+						type="button"
+						variant="link"
+						size="xs"
+						className="px-0"
+						onClick={() => {
+							clearSlot(slotId);
+							setIsDetached(false);
+						}}
+					>
+						<Link2 data-icon="inline-start" />
+						Inherit from {sourceLabel}
+					</Button>
+				</div>
+			</div>
+		);
+	}
+
+	const inheritedValue = harness
+		? getSubmissionWithDefaults(harness, slotValues)[slotId]
+		: undefined;
+
+	const detach = () => {
+		if (inheritedValue !== undefined) setSlotValue(slotId, inheritedValue);
+		setIsDetached(true);
+	};
+
+	return (
+		<Field>
+			{slotDef.type !== "model" && <FieldLabel>{slotDef.label}</FieldLabel>}
+			<div className="flex items-center justify-between gap-3 rounded-lg border border-dashed px-4 py-3 text-sm">
+				<div className="flex min-w-0 items-center gap-2">
+					<Link2 className="size-4 shrink-0 text-muted-foreground" />
+					<span>
+						Inherits from <span className="font-medium">{sourceLabel}</span>
+					</span>
+					<span className="truncate font-mono text-muted-foreground">
+						{formatInheritedValue(inheritedValue)}
+					</span>
+				</div>
+				<Button type="button" variant="outline" size="sm" onClick={detach}>
+					<Unlink data-icon="inline-start" />
+					Detach
+				</Button>
+			</div>
+			{slotDef.description && (
+				<FieldDescription>{slotDef.description}</FieldDescription>
+			)}
+			{showError && inheritedValue === undefined && (
+				<FieldError>
+					Choose a value for {sourceLabel}, or detach to set one here
+				</FieldError>
+			)}
+		</Field>
+	);
+}
+
+function SlotInput({
+	slotId,
+	slotDef,
+	showError = false,
+	binding,
+}: SlotControlProps) {
+	const storeValue = useWizardStore((state) => state.slotValues[slotId]);
+	const setStoreValue = useWizardStore((state) => state.setSlotValue);
+
+	const value = binding ? binding.value : storeValue;
+	const updateValue = (next: unknown) =>
+		binding ? binding.onChange(next) : setStoreValue(slotId, next);
+	const inputId = binding?.id ?? slotId;
 
 	// Guard clause: handle model slots
 	if (slotDef.type === "model") {
 		const modelValue = value as string | undefined;
-		return <ModelSlot slotId={slotId} showError={showError && !modelValue} />;
+		return (
+			<ModelSlot
+				slotId={slotId}
+				showError={showError && !modelValue}
+				binding={binding}
+				slotDef={slotDef}
+			/>
+		);
 	}
 
 	// Guard clause: handle number slots
@@ -33,16 +183,16 @@ export function SlotControl({
 		return (
 			<Field>
 				<div className="flex items-center justify-between">
-					<FieldLabel htmlFor={slotId}>{slotDef.label}</FieldLabel>
+					<FieldLabel htmlFor={inputId}>{slotDef.label}</FieldLabel>
 					<span className="text-sm text-muted-foreground">{numValue}</span>
 				</div>
 				<Slider
-					id={slotId}
+					id={inputId}
 					min={slotDef.min ?? 0}
 					max={slotDef.max ?? 1}
 					step={slotDef.step ?? 0.1}
 					value={numValue}
-					onValueChange={(v) => setSlotValue(slotId, v)}
+					onValueChange={(v) => updateValue(v)}
 				/>
 			</Field>
 		);
@@ -55,26 +205,74 @@ export function SlotControl({
 
 		return (
 			<Field>
-				<FieldLabel htmlFor={slotId}>{slotDef.label}</FieldLabel>
+				<FieldLabel htmlFor={inputId}>{slotDef.label}</FieldLabel>
 				<SimpleSelect
 					options={options}
 					value={(value as string) ?? slotDef.default ?? ""}
-					onChange={(v) => setSlotValue(slotId, v)}
-					id={slotId}
+					onChange={(v) => updateValue(v)}
+					id={inputId}
 				/>
 			</Field>
 		);
 	}
 
+	// Guard clause: handle multi-select enum slots
+	if (slotDef.type === "multiEnum") {
+		const selected = Array.isArray(value)
+			? (value as string[])
+			: slotDef.default;
+		const atMax =
+			slotDef.maxSelected !== undefined &&
+			selected.length >= slotDef.maxSelected;
+		const countError = showError
+			? getSelectionCountError(slotDef, selected.length)
+			: null;
+
+		// Keep selections in option order so output is stable
+		const toggle = (option: string, checked: boolean) => {
+			updateValue(
+				slotDef.options.filter((opt) =>
+					opt === option ? checked : selected.includes(opt),
+				),
+			);
+		};
+
+		return (
+			<FieldSet>
+				<FieldLegend variant="label">{slotDef.label}</FieldLegend>
+				<FieldGroup data-slot="checkbox-group">
+					{slotDef.options.map((option) => {
+						const optionId = `${inputId}-${option}`;
+						const checked = selected.includes(option);
+						return (
+							<Field key={option} orientation="horizontal">
+								<Checkbox
+									id={optionId}
+									checked={checked}
+									disabled={!checked && atMax}
+									onCheckedChange={(v) => toggle(option, v)}
+								/>
+								<FieldLabel htmlFor={optionId} className="font-normal">
+									{option}
+								</FieldLabel>
+							</Field>
+						);
+					})}
+				</FieldGroup>
+				{countError && <FieldError>{countError}</FieldError>}
+			</FieldSet>
+		);
+	}
+
 	// Guard clause: handle boolean slots
 	if (slotDef.type === "boolean") {
 		return (
 			<Field orientation="horizontal">
-				<FieldLabel htmlFor={slotId}>{slotDef.label}</FieldLabel>
+				<FieldLabel htmlFor={inputId}>{slotDef.label}</FieldLabel>
 				<Checkbox
-					id={slotId}
+					id={inputId}
 					checked={(value as boolean) ?? slotDef.default ?? false}
-					onCheckedChange={(v) => setSlotValue(slotId, v)}
+					onCheckedChange={(v) => updateValue(v)}
 				/>
 			</Field>
 		);
@@ -82,18 +280,83 @@ export function SlotControl({
 
 	// Guard clause: handle text slots
 	if (slotDef.type === "text") {
+		const text = (value as string) ?? slotDef.default ?? "";
+		// Show constraint errors once the user has typed, or after a failed Next
+		const textError =
+			showError || value !== undefined ? getTextError(slotDef, text) : null;
 		return (
 			<Field>
-				<FieldLabel htmlFor={slotId}>{slotDef.label}</FieldLabel>
+				<FieldLabel htmlFor={inputId}>{slotDef.label}</FieldLabel>
+				{slotDef.multiline ? (
+					<Textarea
+						id={inputId}
+						value={text}
+						maxLength={slotDef.maxLength}
+						aria-invalid={Boolean(textError)}
+						onChange={(e) => updateValue(e.target.value)}
+					/>
+				) : (
+					<Input
+						id={inputId}
+						value={text}
+						maxLength={slotDef.maxLength}
+						aria-invalid={Boolean(textError)}
+						onChange={(e) => updateValue(e.target.value)}
+					/>
+				)}
+				{textError && <FieldError>{textError}</FieldError>}
+			</Field>
+		);
+	}
+
+	// Guard clause: handle environment variable reference slots
+	if (slotDef.type === "envRef") {
+		const name = (value as string | undefined) ?? slotDef.default ?? "";
+		// Pasted keys are flagged immediately, before anything is submitted
+		const nameError = name ? getSlotValueError(slotDef, name) : null;
+		return (
+			<Field>
+				<FieldLabel htmlFor={inputId}>{slotDef.label}</FieldLabel>
 				<Input
-					id={slotId}
-					value={(value as string) ?? slotDef.default ?? ""}
-					onChange={(e) => setSlotValue(slotId, e.target.value)}
+					id={inputId}
+					value={name}
+					placeholder="OPENAI_API_KEY"
+					autoComplete="off"
+					spellCheck={false}
+					className="font-mono"
+					onChange={(e) => updateValue(e.target.value.trim() || undefined)}
 				/>
+				<FieldDescription>
+					Enter the environment variable name, not the value. The config will
+					contain <code>{`{env:${name || "NAME"}}`}</code>.
+				</FieldDescription>
+				{nameError && <FieldError>{nameError}</FieldError>}
 			</Field>
 		);
 	}
 
+	// Guard clause: handle group slots
+	if (slotDef.type === "group") {
+		return (
+			<GroupSlotControl
+				slotId={slotId}
+				slotDef={slotDef}
+				showError={showError}
+			/>
+		);
+	}
+
+	// Guard clause: handle list slots
+	if (slotDef.type === "list") {
+		return (
+			<ListSlotControl
+				slotId={slotId}
+				slotDef={slotDef}
+				showError={showError}
+			/>
+		);
+	}
+
 	// Fail fast: unknown slot type
 	return null;
 }
@@ -46,7 +46,7 @@ export function WizardHeader({
 	const requestBannerFocus = useWizardStore((s) => s.requestBannerFocus);
 
 	// Get wizard steps if harness is selected
-	const steps = harnessId ? getWizardSteps(harnessId) : [];
+	const steps = harnessId ? getWizardSteps(harnessId, slotValues) : [];
 
 	// Handle step click with validation
 	const handleStepClick = (targetIndex: number) => {
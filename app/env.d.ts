@@ -5,6 +5,7 @@ declare module "react-router" {
 		cloudflare: {
 			env: {
 				PROFILES_KV: KVNamespace;
+				VALIDATE_OUTPUT_SCHEMAS?: string; // "true" checks generated files against output schemas
 			};
 		};
 	}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import {
+	getModelCapabilities,
+	providerExists,
+	transformModels,
+} from "./catalog-service";
+
+const catalog: Parameters<typeof getModelCapabilities>[0] = {
+	fetchedAt: 0,
+	providers: {
+		openai: {
+			id: "openai",
+			name: "OpenAI",
+			env: ["OPENAI_API_KEY"],
+			npm: "@ai-sdk/openai",
+			doc: "https://platform.openai.com/docs",
+			models: {
+				"gpt-5": {
+					id: "gpt-5",
+					name: "GPT-5",
+					family: "gpt",
+					tool_call: true,
+					reasoning: true,
+					limit: { context: 400000 },
+					modalities: { input: ["text", "image"], output: ["text"] },
+				},
+				"gpt-4": {
+					id: "gpt-4",
+					name: "GPT-4",
+					family: "gpt",
+					status: "deprecated",
+				},
+			},
+		},
+	},
+};
+
+describe("catalog lookups", () => {
+	it("finds providers and models by ID", () => {
+		expect(providerExists(catalog, "openai")).toBe(true);
+		expect(getModelCapabilities(catalog, "openai/gpt-5")).toEqual({
+			toolCall: true,
+			reasoning: true,
+			attachment: false,
+			contextLimit: 400000,
+			inputModalities: ["text", "image"],
+			outputModalities: ["text"],
+		});
+		expect(transformModels(catalog, "openai").items.map((m) => m.id)).toEqual([
+			"gpt-5",
+		]);
+	});
+
+	it("does not treat Object.prototype names as providers or models", () => {
+		expect(providerExists(catalog, "constructor")).toBe(false);
+		expect(providerExists(catalog, "__proto__")).toBe(false);
+		expect(getModelCapabilities(catalog, "constructor/x")).toBeUndefined();
+		expect(getModelCapabilities(catalog, "openai/constructor")).toBeUndefined();
+		expect(transformModels(catalog, "toString")).toEqual({
+			items: [],
+			total: 0,
+			hasMore: false,
+		});
+	});
+});
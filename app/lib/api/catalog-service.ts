@@ -1,7 +1,12 @@
 import type { KVNamespace } from "@cloudflare/workers-types";
 import { getOAuthProviders } from "./opencode-oauth";
 import { inferAuthType } from "./provider-meta";
-import type { ModelListItem, ProviderSummary } from "./types";
+import type {
+	ModelCapabilities,
+	ModelListItem,
+	ModelModality,
+	ProviderSummary,
+} from "./types";
 
 // models.dev API types
 interface ModelsDevProvider {
@@ -19,6 +24,11 @@ interface ModelsDevModel {
 	name: string;
 	family: string;
 	status?: "deprecated";
+	attachment?: boolean;
+	reasoning?: boolean;
+	tool_call?: boolean;
+	limit?: { context?: number; output?: number };
+	modalities?: { input?: ModelModality[]; output?: ModelModality[] };
 	// ... other fields we don't need
 }
 
@@ -123,6 +133,16 @@ export async function transformProviders(
 		.sort((a, b) => a.name.localeCompare(b.name));
 }
 
+// Look up a provider by ID (own keys only, so "constructor" is not a provider)
+function getProvider(
+	catalog: Catalog,
+	providerId: string,
+): ModelsDevProvider | undefined {
+	return Object.hasOwn(catalog.providers, providerId)
+		? catalog.providers[providerId]
+		: undefined;
+}
+
 // Transform models for a specific provider with filtering and pagination
 export function transformModels(
 	catalog: Catalog,
@@ -131,7 +151,7 @@ export function transformModels(
 	offset = 0,
 	limit = 20,
 ): { items: ModelListItem[]; total: number; hasMore: boolean } {
-	const provider = catalog.providers[providerId];
+	const provider = getProvider(catalog, providerId);
 	if (!provider) {
 		return { items: [], total: 0, hasMore: false };
 	}
@@ -139,7 +159,11 @@ export function transformModels(
 	// Get all non-deprecated models, sorted by id
 	let models = Object.values(provider.models)
 		.filter((m) => m.status !== "deprecated")
-		.map((m) => ({ id: m.id, name: m.name }))
+		.map((m) => ({
+			id: m.id,
+			name: m.name,
+			capabilities: toModelCapabilities(m),
+		}))
 		.sort((a, b) => a.id.localeCompare(b.id));
 
 	// Apply search filter if query provided
@@ -158,7 +182,32 @@ export function transformModels(
 	return { items, total, hasMore };
 }
 
+// Normalize models.dev capability fields (missing flags mean "not supported")
+function toModelCapabilities(model: ModelsDevModel): ModelCapabilities {
+	return {
+		toolCall: model.tool_call ?? false,
+		reasoning: model.reasoning ?? false,
+		attachment: model.attachment ?? false,
+		contextLimit: model.limit?.context,
+		inputModalities: model.modalities?.input ?? ["text"],
+		outputModalities: model.modalities?.output ?? ["text"],
+	};
+}
+
+// Look up capabilities for a "providerId/modelId" value (undefined if unknown)
+export function getModelCapabilities(
+	catalog: Catalog,
+	modelValue: string,
+): ModelCapabilities | undefined {
+	const [providerId, ...rest] = modelValue.split("/");
+	const models = getProvider(catalog, providerId)?.models;
+	const modelId = rest.join("/");
+	return models && Object.hasOwn(models, modelId)
+		? toModelCapabilities(models[modelId])
+		: undefined;
+}
+
 // Check if a provider exists in catalog
 export function providerExists(catalog: Catalog, providerId: string): boolean {
-	return providerId in catalog.providers;
+	return getProvider(catalog, providerId) !== undefined;
 }
@@ -39,7 +39,11 @@ export function createAPIModelLoader(providerId: string) {
 		const data = (await response.json()) as ProviderModelsResponse;
 
 		return {
-			items: data.items.map((m) => ({ id: m.id, name: m.name ?? m.id })),
+			items: data.items.map((m) => ({
+				id: m.id,
+				name: m.name ?? m.id,
+				capabilities: m.capabilities,
+			})),
 			nextCursor: data.nextCursor,
 			hasMore: !!data.nextCursor,
 		};
@@ -1,58 +1,21 @@
 import { getHarness } from "~/lib/harness-registry";
-import { buildResolverContext, resolveRefs } from "./ref-resolver";
+import { getEmittedTemplates, renderTemplate } from "./output-format";
+import { normalizeOutputPath } from "./output-path";
+import { buildResolverContext, type ProfileRuntime } from "./ref-resolver";
 import type { GeneratedFile } from "./types";
 
-/**
- * Normalize and validate an output path.
- * - Prevents path traversal (../)
- * - Prevents absolute paths
- * - Ensures POSIX-style paths
- */
-function normalizeOutputPath(path: string): string {
-	// Guard: reject empty paths
-	if (!path || path.trim() === "") {
-		throw new Error("Output path cannot be empty");
-	}
-
-	// Guard: reject absolute paths
-	if (path.startsWith("/") || /^[A-Za-z]:/.test(path)) {
-		throw new Error(`Absolute paths not allowed: "${path}"`);
-	}
-
-	// Normalize to POSIX-style (forward slashes)
-	const normalized = path.replace(/\\/g, "/");
-
-	// Split and filter empty segments
-	const segments = normalized.split("/").filter(Boolean);
-
-	// Guard: reject path traversal
-	const result: string[] = [];
-	for (const segment of segments) {
-		if (segment === "..") {
-			throw new Error(`Path traversal not allowed: "${path}"`);
-		}
-		if (segment !== ".") {
-			result.push(segment);
-		}
-	}
-
-	if (result.length === 0) {
-		throw new Error(`Invalid output path: "${path}"`);
-	}
-
-	return result.join("/");
-}
-
 /**
  * Generate profile files from harness templates.
  *
  * @param harnessId - The harness ID
  * @param slotValues - Slot values { slotId: value }
+ * @param runtime - Component ID, creation time and providers for "#/meta" and "#/providers"
  * @returns Array of generated files
  */
 export function generateProfileFiles(
 	harnessId: string,
 	slotValues: Record<string, unknown>,
+	runtime: ProfileRuntime,
 ): GeneratedFile[] {
 	// Guard: harness must exist
 	const harness = getHarness(harnessId);
@@ -61,15 +24,19 @@ export function generateProfileFiles(
 	}
 
 	// Build resolver context with precedence resolution
-	const context = buildResolverContext(harness, slotValues);
+	const context = buildResolverContext(harness, slotValues, runtime);
 
-	// Track output paths for duplicate detection
+	// Track output paths and install targets for duplicate detection
 	const seenPaths = new Set<string>();
+	const seenTargets = new Set<string>();
+	const outputsByPath = new Map(
+		harness.outputs.map((output) => [output.path, output]),
+	);
 
-	// Generate files from templates
+	// Generate files from templates (outputs whose emitWhen is false are skipped)
 	const files: GeneratedFile[] = [];
 
-	for (const templateConfig of harness.templates) {
+	for (const templateConfig of getEmittedTemplates(harness, context)) {
 		// Normalize and validate output path
 		const normalizedPath = normalizeOutputPath(templateConfig.output);
 
@@ -79,15 +46,21 @@ export function generateProfileFiles(
 		}
 		seenPaths.add(normalizedPath);
 
-		// Resolve $ref placeholders in template
-		const resolved = resolveRefs(templateConfig.template, context);
+		// Install target defaults to the output path; same traversal checks
+		const target = outputsByPath.get(templateConfig.output)?.target;
+		const normalizedTarget = normalizeOutputPath(target ?? normalizedPath);
+		if (seenTargets.has(normalizedTarget)) {
+			throw new Error(`Duplicate output target: "${normalizedTarget}"`);
+		}
+		seenTargets.add(normalizedTarget);
 
-		// Serialize to JSON with consistent formatting
-		const content = JSON.stringify(resolved, null, 2);
+		// Resolve $ref placeholders and serialize in the template's format
+		const content = renderTemplate(templateConfig, context);
 
 		files.push({
 			path: normalizedPath,
 			content,
+			...(target !== undefined && { target: normalizedTarget }),
 		});
 	}
 
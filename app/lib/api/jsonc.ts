@@ -0,0 +1,112 @@
+/**
+ * JSONC Serializer
+ *
+ * Serializes resolved templates like JSON.stringify(value, null, 2), adding
+ * the "$comment" annotations collected by resolveRefs as "//" lines above
+ * the key or list element they describe:
+ *
+ *   Template: { "$comment": "Profile", "agent": { "$comment": "Agents", ... } }
+ *   Output:
+ *     // Profile
+ *     {
+ *       // Agents
+ *       "agent": { ... }
+ *     }
+ *
+ * Plain JSON outputs use JSON.stringify, which drops the comments.
+ * parseJsonc reads generated files back, e.g. for output schema checks.
+ */
+
+import {
+	COMMENT_HEADER,
+	type CommentMap,
+	getComments,
+} from "./ref-resolver.js";
+
+const INDENT = "  ";
+
+function renderComments(lines: string[] | undefined, indent: string): string {
+	if (!lines) return "";
+	return lines
+		.map((line) => (line === "" ? `${indent}//\n` : `${indent}// ${line}\n`))
+		.join("");
+}
+
+/**
+ * Whether JSON.stringify omits a value as an object property.
+ */
+function isOmitted(value: unknown): boolean {
+	return (
+		value === undefined ||
+		typeof value === "function" ||
+		typeof value === "symbol"
+	);
+}
+
+function writeValue(value: unknown, indent: string): string {
+	if (typeof value !== "object" || value === null) {
+		return JSON.stringify(value) ?? "null";
+	}
+
+	const comments: CommentMap = getComments(value) ?? new Map();
+	const inner = indent + INDENT;
+
+	if (Array.isArray(value)) {
+		if (value.length === 0) return "[]";
+		const items = value.map(
+			(item, index) =>
+				`${renderComments(comments.get(index), inner)}${inner}${isOmitted(item) ? "null" : writeValue(item, inner)}`,
+		);
+		return `[\n${items.join(",\n")}\n${indent}]`;
+	}
+
+	const entries = Object.entries(value).filter(([, item]) => !isOmitted(item));
+	if (entries.length === 0) return "{}";
+	const lines = entries.map(
+		([key, item]) =>
+			`${renderComments(comments.get(key), inner)}${inner}${JSON.stringify(key)}: ${writeValue(item, inner)}`,
+	);
+	return `{\n${lines.join(",\n")}\n${indent}}`;
+}
+
+/**
+ * Serialize a resolved template as JSONC with its comments.
+ * Without comments the output matches JSON.stringify(value, null, 2).
+ */
+export function stringifyJsonc(value: unknown): string {
+	const header = getComments(value)?.get(COMMENT_HEADER);
+	return `${renderComments(header, "")}${writeValue(value, "")}`;
+}
+
+/**
+ * Parse JSONC: JSON with "//" line and block comments outside strings.
+ *
+ * @throws SyntaxError if the content is not valid JSON once comments are removed
+ */
+export function parseJsonc(content: string): unknown {
+	let json = "";
+	let index = 0;
+	while (index < content.length) {
+		const char = content[index];
+		if (char === '"') {
+			// Copy the string literal, skipping escaped characters
+			let end = index + 1;
+			while (end < content.length && content[end] !== '"') {
+				end += content[end] === "\\" ? 2 : 1;
+			}
+			json += content.slice(index, end + 1);
+			index = end + 1;
+		} else if (content.startsWith("//", index)) {
+			const end = content.indexOf("\n", index);
+			index = end === -1 ? content.length : end;
+		} else if (content.startsWith("/*", index)) {
+			const end = content.indexOf("*/", index + 2);
+			if (end === -1) throw new SyntaxError("Unterminated comment in JSONC");
+			index = end + 2;
+		} else {
+			json += char;
+			index += 1;
+		}
+	}
+	return JSON.parse(json);
+}
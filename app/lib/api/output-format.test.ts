@@ -0,0 +1,116 @@
+// biome-ignore-all lint/suspicious/noTemplateCurlyInString: templates use "${<pointer>}" interpolation
+import { describe, expect, it } from "vitest";
+import { createTestHarness } from "../test-harness";
+import { getEmittedTemplates, renderTemplate } from "./output-format";
+import { buildResolverContext, type ResolverContext } from "./ref-resolver";
+
+describe("renderTemplate", () => {
+	const context: ResolverContext = {
+		slots: { model: "openai/gpt-5", temperature: 0.2, use_docs: false },
+	};
+
+	it("renders Markdown with YAML frontmatter", () => {
+		const content = renderTemplate(
+			{
+				output: "agent/docs.md",
+				format: "markdown-frontmatter",
+				template: {
+					frontmatter: {
+						description: "Writes docs: ${#/slots/model}",
+						model: { $ref: "#/slots/model" },
+						temperature: { $ref: "#/slots/temperature" },
+						tools: { write: true, bash: false },
+						tags: ["docs", "yes"],
+					},
+					body: ["You write documentation.", "", "Use ${#/slots/model}."],
+				},
+			},
+			context,
+		);
+
+		expect(content).toBe(
+			[
+				"---",
+				'description: "Writes docs: openai/gpt-5"',
+				"model: openai/gpt-5",
+				"temperature: 0.2",
+				"tools:",
+				"  write: true",
+				"  bash: false",
+				"tags:",
+				"  - docs",
+				'  - "yes"',
+				"---",
+				"You write documentation.",
+				"",
+				"Use openai/gpt-5.",
+			].join("\n"),
+		);
+	});
+
+	it("joins text lines and drops false $if lines", () => {
+		const content = renderTemplate(
+			{
+				output: "AGENTS.md",
+				format: "text",
+				template: [
+					"# Agents",
+					{ $if: { slot: "use_docs" }, $then: "Read docs/ first." },
+					"Model: ${#/slots/model}",
+				],
+			},
+			context,
+		);
+
+		expect(content).toBe("# Agents\nModel: openai/gpt-5");
+		expect(() =>
+			renderTemplate(
+				{ output: "a.txt", format: "text", template: [{ x: 1 }] },
+				context,
+			),
+		).toThrow("Text template line 0 must resolve to a string, got object");
+	});
+});
+
+describe("getEmittedTemplates", () => {
+	const harness = createTestHarness({
+		slots: {
+			instructions: { type: "text", label: "Instructions", default: "" },
+			use_plugin: { type: "boolean", label: "Plugin", default: false },
+		},
+		outputs: [
+			{ path: "opencode.json", label: "OpenCode" },
+			{
+				path: "AGENTS.md",
+				label: "Instructions",
+				emitWhen: { slot: "instructions" },
+			},
+			{
+				path: "plugin.json",
+				label: "Plugin",
+				emitWhen: { slot: "use_plugin", equals: true },
+			},
+		],
+		templates: [
+			{ output: "opencode.json", template: {} },
+			{
+				output: "AGENTS.md",
+				format: "text",
+				template: "${#/slots/instructions}",
+			},
+			{ output: "plugin.json", template: {} },
+		],
+	});
+
+	const emittedOutputs = (slotValues: Record<string, unknown>) =>
+		getEmittedTemplates(harness, buildResolverContext(harness, slotValues)).map(
+			(template) => template.output,
+		);
+
+	it("skips outputs whose emitWhen condition is false", () => {
+		expect(emittedOutputs({})).toEqual(["opencode.json"]);
+		expect(
+			emittedOutputs({ instructions: "Be brief.", use_plugin: true }),
+		).toEqual(["opencode.json", "AGENTS.md", "plugin.json"]);
+	});
+});
@@ -0,0 +1,199 @@
+/**
+ * Output Formats
+ *
+ * Renders a resolved template to file content according to its format:
+ *
+ *   json                  JSON.stringify with 2-space indentation
+ *   jsonc                 Same, plus "$comment" annotations as // lines
+ *   markdown-frontmatter  { frontmatter, body } → "---\n<YAML>---\n<body>"
+ *   text                  A string, or a list of lines joined by "\n"
+ *
+ * Text uses the resolver's "${<pointer>}" interpolation, and list lines may
+ * be $if blocks, so text and Markdown bodies can reference slots:
+ *   Template: ["# ${#/meta/harness/name}", { "$if": { "slot": "use_docs" },
+ *               "$then": "Read docs/ before editing." }]
+ */
+
+import type {
+	HarnessConfig,
+	HarnessTemplate,
+	TemplateFormat,
+} from "~/lib/harness-schema";
+import { evaluateCondition } from "../slot-conditions.js";
+import { stringifyJsonc } from "./jsonc.js";
+import { type ResolverContext, resolveRefs } from "./ref-resolver.js";
+
+/**
+ * Format of a template: its `format`, else JSONC for ".jsonc" outputs and
+ * JSON otherwise.
+ */
+export function getTemplateFormat(template: {
+	output: string;
+	format?: TemplateFormat;
+}): TemplateFormat {
+	if (template.format) return template.format;
+	return template.output.endsWith(".jsonc") ? "jsonc" : "json";
+}
+
+/**
+ * Templates whose output applies to the context's slot values. Outputs
+ * with a false `emitWhen` condition are not generated.
+ */
+export function getEmittedTemplates(
+	harness: HarnessConfig,
+	context: ResolverContext,
+): HarnessTemplate[] {
+	const skippedPaths = new Set(
+		harness.outputs
+			.filter(
+				(output) =>
+					output.emitWhen && !evaluateCondition(output.emitWhen, context.slots),
+			)
+			.map((output) => output.path),
+	);
+	return harness.templates.filter(
+		(template) => !skippedPaths.has(template.output),
+	);
+}
+
+/**
+ * Resolve a template and serialize it in its format.
+ *
+ * @param template - Harness template (output, format, template)
+ * @param context - Resolver context
+ * @returns File content
+ */
+export function renderTemplate(
+	template: HarnessTemplate,
+	context: ResolverContext,
+): string {
+	const format = getTemplateFormat(template);
+	const resolved = resolveRefs(template.template, context);
+
+	switch (format) {
+		case "json":
+			return JSON.stringify(resolved, null, 2);
+		case "jsonc":
+			return stringifyJsonc(resolved);
+		case "markdown-frontmatter":
+			return renderMarkdown(
+				resolved as { frontmatter?: unknown; body: unknown },
+			);
+		case "text":
+			return renderText(resolved, "template");
+	}
+}
+
+/**
+ * Join resolved text lines. Every line must be a string; omitted $if
+ * lines are already dropped by the resolver.
+ */
+function renderText(resolved: unknown, location: string): string {
+	if (typeof resolved === "string") return resolved;
+	if (!Array.isArray(resolved)) {
+		throw new Error(`Text ${location} must resolve to a string or a list`);
+	}
+	resolved.forEach((line, index) => {
+		if (typeof line !== "string") {
+			throw new Error(
+				`Text ${location} line ${index} must resolve to a string, got ${line === null ? "null" : Array.isArray(line) ? "a list" : typeof line}`,
+			);
+		}
+	});
+	return resolved.join("\n");
+}
+
+function renderMarkdown(resolved: {
+	frontmatter?: unknown;
+	body: unknown;
+}): string {
+	const body = renderText(resolved.body, "body");
+	const frontmatter = resolved.frontmatter;
+	if (
+		typeof frontmatter !== "object" ||
+		frontmatter === null ||
+		Object.keys(frontmatter).length === 0
+	) {
+		return body;
+	}
+	return `---\n${stringifyYaml(frontmatter, "")}---\n${body}`;
+}
+
+// ============================================================================
+// Minimal YAML writer for frontmatter (JSON values only)
+// ============================================================================
+
+const PLAIN_KEY = /^[A-Za-z_][A-Za-z0-9_-]*$/;
+const PLAIN_STRING = /^(?!\.\d)[A-Za-z_./][A-Za-z0-9 _./@+-]*$/;
+// Plain scalars YAML would read as something other than a string
+const YAML_KEYWORDS = /^(true|false|yes|no|on|off|null|~|\.inf|\.nan)$/i;
+
+function formatYamlKey(key: string): string {
+	return PLAIN_KEY.test(key) ? key : JSON.stringify(key);
+}
+
+function formatYamlScalar(value: unknown): string {
+	if (typeof value === "string") {
+		// Double-quoted YAML scalars use JSON escapes
+		return PLAIN_STRING.test(value) &&
+			!YAML_KEYWORDS.test(value) &&
+			!value.endsWith(" ")
+			? value
+			: JSON.stringify(value);
+	}
+	if (typeof value === "number" || typeof value === "boolean") {
+		return String(value);
+	}
+	return "null";
+}
+
+function isNested(value: unknown): value is object {
+	if (Array.isArray(value)) return value.length > 0;
+	return (
+		typeof value === "object" &&
+		value !== null &&
+		Object.values(value).some((v) => v !== undefined)
+	);
+}
+
+/**
+ * Block-style YAML for an object or list, one entry per line. Like JSON,
+ * undefined object values are skipped. Ends with a newline.
+ */
+function stringifyYaml(value: object, indent: string): string {
+	const inner = `${indent}  `;
+	const writeEntry = (prefix: string, item: unknown): string => {
+		if (!isNested(item)) {
+			const scalar = Array.isArray(item)
+				? "[]"
+				: typeof item === "object" && item !== null
+					? "{}"
+					: formatYamlScalar(item);
+			return `${indent}${prefix} ${scalar}\n`;
+		}
+		return `${indent}${prefix}\n${stringifyYaml(item, inner)}`;
+	};
+
+	if (Array.isArray(value)) {
+		return value.map((item) => writeEntry("-", item)).join("");
+	}
+	return Object.entries(value)
+		.filter(([, item]) => item !== undefined)
+		.map(([key, item]) => writeEntry(`${formatYamlKey(key)}:`, item))
+		.join("");
+}
+
+/**
+ * Display language of a generated file, from its extension.
+ */
+export function getFileLanguage(path: string): string {
+	const extension = path.slice(path.lastIndexOf(".") + 1).toLowerCase();
+	const languages: Record<string, string> = {
+		json: "JSON",
+		jsonc: "JSONC",
+		md: "Markdown",
+		yaml: "YAML",
+		yml: "YAML",
+	};
+	return languages[extension] ?? "Text";
+}
@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import { normalizeOutputPath } from "./output-path";
+
+describe("normalizeOutputPath", () => {
+	it("normalizes to a relative POSIX path", () => {
+		expect(normalizeOutputPath("./agent//docs.md")).toBe("agent/docs.md");
+		expect(normalizeOutputPath("agent\\docs.md")).toBe("agent/docs.md");
+	});
+
+	it("rejects absolute, traversing and empty paths", () => {
+		expect(() => normalizeOutputPath("/etc/passwd")).toThrow(
+			'Absolute paths not allowed: "/etc/passwd"',
+		);
+		expect(() => normalizeOutputPath("C:\\config.json")).toThrow(
+			"Absolute paths not allowed",
+		);
+		expect(() => normalizeOutputPath("agent/../../x")).toThrow(
+			'Path traversal not allowed: "agent/../../x"',
+		);
+		expect(() => normalizeOutputPath(" ")).toThrow(
+			"Output path cannot be empty",
+		);
+		expect(() => normalizeOutputPath("./.")).toThrow(
+			'Invalid output path: "./."',
+		);
+	});
+});
@@ -0,0 +1,40 @@
+/**
+ * Normalize and validate an output path or install target.
+ * - Prevents path traversal (../)
+ * - Prevents absolute paths
+ * - Ensures POSIX-style paths
+ */
+export function normalizeOutputPath(path: string): string {
+	// Guard: reject empty paths
+	if (!path || path.trim() === "") {
+		throw new Error("Output path cannot be empty");
+	}
+
+	// Guard: reject absolute paths
+	if (path.startsWith("/") || /^[A-Za-z]:/.test(path)) {
+		throw new Error(`Absolute paths not allowed: "${path}"`);
+	}
+
+	// Normalize to POSIX-style (forward slashes)
+	const normalized = path.replace(/\\/g, "/");
+
+	// Split and filter empty segments
+	const segments = normalized.split("/").filter(Boolean);
+
+	// Guard: reject path traversal
+	const result: string[] = [];
+	for (const segment of segments) {
+		if (segment === "..") {
+			throw new Error(`Path traversal not allowed: "${path}"`);
+		}
+		if (segment !== ".") {
+			result.push(segment);
+		}
+	}
+
+	if (result.length === 0) {
+		throw new Error(`Invalid output path: "${path}"`);
+	}
+
+	return result.join("/");
+}
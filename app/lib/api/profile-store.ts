@@ -23,6 +23,7 @@ const StoredProfileSchema = z
 			.object({
 				harnessId: z.string().min(1),
 				slotValues: z.record(z.string(), z.unknown()),
+				providers: z.array(z.string()).optional(),
 			})
 			.strict(),
 		files: z
@@ -31,6 +32,7 @@ const StoredProfileSchema = z
 					.object({
 						path: z.string().min(1),
 						content: z.string(),
+						target: z.string().min(1).optional(),
 					})
 					.strict(),
 			)
@@ -99,6 +101,7 @@ export async function saveProfile(
 	request: CreateProfileRequest,
 	files: GeneratedFile[],
 	dependencies: string[],
+	createdAt: string = new Date().toISOString(),
 ): Promise<boolean> {
 	const key = getProfileKey(componentId);
 
@@ -108,15 +111,13 @@ export async function saveProfile(
 		return false; // ID collision - caller should retry with new ID
 	}
 
-	const now = new Date().toISOString();
-
 	const profile: StoredProfile = {
 		componentId,
 		request,
 		files,
 		dependencies: parseDependencies(dependencies),
-		createdAt: now,
-		lastAccessedAt: now,
+		createdAt,
+		lastAccessedAt: createdAt,
 	};
 
 	await kv.put(key, JSON.stringify(profile), {
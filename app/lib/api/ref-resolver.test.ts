@@ -1,6 +1,10 @@
+// biome-ignore-all lint/suspicious/noTemplateCurlyInString: templates use "${<pointer>}" interpolation
 import { describe, expect, it } from "vitest";
+import { createTestHarness } from "../test-harness";
+import { stringifyJsonc } from "./jsonc";
 import {
 	buildResolverContext,
+	getSubmissionWithDefaults,
 	type ResolverContext,
 	resolveRefs,
 } from "./ref-resolver";
@@ -85,10 +89,56 @@ describe("resolveRefs", () => {
 		);
 	});
 
-	it("throws on nested path in $ref", () => {
-		const template = { model: { $ref: "#/slots/ultrabrain/model" } };
+	it("resolves derived provider and model pointers", () => {
+		const template = {
+			provider: { $ref: "#/slots/ultrabrain/provider" },
+			model: { $ref: "#/slots/ultrabrain/model" },
+			label: "${#/slots/quick/model}",
+		};
+		expect(resolveRefs(template, context)).toEqual({
+			provider: "openai",
+			model: "gpt-5",
+			label: "haiku",
+		});
+	});
+
+	it("keeps every slash after the provider in the model ID", () => {
+		const template = { model: { $ref: "#/slots/routed/model" } };
+		const routed = { slots: { routed: "openrouter/anthropic/claude-sonnet" } };
+		expect(resolveRefs(template, routed)).toEqual({
+			model: "anthropic/claude-sonnet",
+		});
+	});
+
+	it("resolves list indexes and object keys", () => {
+		const nested: ResolverContext = {
+			slots: {
+				agents: [{ name: "docs", model: "openai/gpt-5" }],
+				tags: ["a", "b"],
+			},
+		};
+		const template = {
+			name: { $ref: "#/slots/agents/0/name" },
+			provider: { $ref: "#/slots/agents/0/model/provider" },
+			tag: { $ref: "#/slots/tags/1" },
+		};
+		expect(resolveRefs(template, nested)).toEqual({
+			name: "docs",
+			provider: "openai",
+			tag: "b",
+		});
+		expect(() =>
+			resolveRefs({ x: { $ref: "#/slots/tags/2" } }, nested),
+		).toThrow("index 2 is out of range (list has 2 items)");
+		expect(() =>
+			resolveRefs({ x: { $ref: "#/slots/tags/first" } }, nested),
+		).toThrow('"first" is not a list index');
+	});
+
+	it("throws on unsupported derived segments", () => {
+		const template = { model: { $ref: "#/slots/ultrabrain/name" } };
 		expect(() => resolveRefs(template, context)).toThrow(
-			"nested paths are not supported",
+			'unsupported segment "name" on a string value',
 		);
 	});
 
@@ -100,11 +150,11 @@ describe("resolveRefs", () => {
 			},
 		};
 
-		// Note: In flat slots model, we don't support path traversal
-		// These special keys are just part of the slot ID itself
+		// "/" always starts a derived segment, so "#/slots/a/b" reads
+		// segment "b" of slot "a" rather than a slot named "a/b"
 		const template1 = { value: { $ref: "#/slots/a/b" } };
 		expect(() => resolveRefs(template1, contextWithSpecialKeys)).toThrow(
-			"nested paths are not supported",
+			'slot "a" not found',
 		);
 
 		// Slot IDs with ~ should work directly without escaping
@@ -126,28 +176,377 @@ describe("resolveRefs", () => {
 	});
 });
 
+describe("resolveRefs $optional", () => {
+	const context: ResolverContext = {
+		slots: { temperature: undefined, tools: ["read"], debug: false },
+	};
+
+	it("omits keys and array elements when the value is unset", () => {
+		const template = {
+			temperature: { $ref: "#/slots/temperature", $optional: true },
+			debug: { $ref: "#/slots/debug", $optional: true },
+			tools: [
+				{ $ref: "#/slots/tools/0", $optional: true },
+				{ $ref: "#/slots/temperature", $optional: true },
+			],
+		};
+
+		expect(resolveRefs(template, context)).toEqual({
+			debug: false,
+			tools: ["read"],
+		});
+	});
+
+	it("rejects plain refs to unset values in strict mode", () => {
+		const template = { temperature: { $ref: "#/slots/temperature" } };
+
+		expect(resolveRefs(template, context)).toEqual({
+			temperature: undefined,
+		});
+		expect(() =>
+			resolveRefs(template, { ...context, strictRefs: true }),
+		).toThrow('Failed to resolve "#/slots/temperature" at ".temperature"');
+	});
+
+	it("requires $optional to be true", () => {
+		expect(() =>
+			resolveRefs({ $ref: "#/slots/debug", $optional: false }, context),
+		).toThrow('"$optional" must be true');
+	});
+});
+
+describe("resolveRefs $merge", () => {
+	const context: ResolverContext = {
+		slots: { model: "openai/gpt-5", plan_mode: true },
+		fragments: {
+			agent: {
+				model: { $ref: "#/slots/model" },
+				tools: { read: true, write: true },
+				skills: ["git", "docs"],
+			},
+		},
+	};
+
+	it("deep-merges fragments and objects in order", () => {
+		const template = {
+			$merge: [
+				{ $ref: "#/fragments/agent" },
+				{ tools: { write: false }, skills: ["docs", "tests"] },
+				{ $if: { slot: "plan_mode", equals: false }, $then: { steps: 5 } },
+			],
+		};
+
+		expect(resolveRefs(template, context)).toEqual({
+			model: "openai/gpt-5",
+			tools: { read: true, write: false },
+			skills: ["docs", "tests"],
+		});
+	});
+
+	it("combines lists with the $arrays strategy", () => {
+		const merge = (strategy: string) =>
+			resolveRefs(
+				{
+					$merge: [
+						{ $ref: "#/fragments/agent" },
+						{ skills: ["docs", "tests"] },
+					],
+					$arrays: strategy,
+				},
+				context,
+			);
+
+		expect(merge("concat")).toMatchObject({
+			skills: ["git", "docs", "docs", "tests"],
+		});
+		expect(merge("union")).toMatchObject({ skills: ["git", "docs", "tests"] });
+		expect(() => merge("zip")).toThrow('"$arrays" must be one of');
+	});
+
+	it("rejects type conflicts and non-object entries", () => {
+		expect(() =>
+			resolveRefs(
+				{ $merge: [{ $ref: "#/fragments/agent" }, { tools: "all" }] },
+				context,
+			),
+		).toThrow(
+			'Invalid $merge at ".tools": cannot merge a string into an object',
+		);
+		expect(() =>
+			resolveRefs({ $merge: [{ $ref: "#/slots/model" }] }, context),
+		).toThrow("entry is a string, expected an object");
+		expect(() =>
+			resolveRefs({ x: { $ref: "#/fragments/missing" } }, context),
+		).toThrow('template fragment "missing" not found');
+	});
+});
+
+describe("resolveRefs $comment", () => {
+	const context: ResolverContext = {
+		slots: { model: "openai/gpt-5", agents: [{ name: "docs" }] },
+	};
+	const template = {
+		$comment: "Generated profile",
+		model: { $ref: "#/slots/model", $comment: "Main model" },
+		agent: {
+			$comment: ["Agents", "one per entry"],
+			$each: "#/slots/agents",
+			$key: "#/item/name",
+			$template: { $comment: "Custom agent", prompt: "${#/item/name}" },
+		},
+		tools: [{ $if: { slot: "model" }, $then: "read", $comment: "Read" }],
+	};
+
+	it("renders comments in JSONC and strips them from JSON", () => {
+		const resolved = resolveRefs(template, context);
+
+		expect(JSON.stringify(resolved)).toBe(
+			'{"model":"openai/gpt-5","agent":{"docs":{"prompt":"docs"}},"tools":["read"]}',
+		);
+		expect(stringifyJsonc(resolved)).toBe(
+			[
+				"// Generated profile",
+				"{",
+				"  // Main model",
+				'  "model": "openai/gpt-5",',
+				"  // Agents",
+				"  // one per entry",
+				'  "agent": {',
+				"    // Custom agent",
+				'    "docs": {',
+				'      "prompt": "docs"',
+				"    }",
+				"  },",
+				'  "tools": [',
+				"    // Read",
+				'    "read"',
+				"  ]",
+				"}",
+			].join("\n"),
+		);
+	});
+
+	it("matches JSON.stringify without comments", () => {
+		const resolved = resolveRefs(
+			{ a: [1, { b: null }], c: {}, d: [], e: { $ref: "#/slots/missing" } },
+			{ slots: { missing: undefined } },
+		);
+
+		expect(stringifyJsonc(resolved)).toBe(JSON.stringify(resolved, null, 2));
+	});
+
+	it("rejects comments that are not strings", () => {
+		expect(() => resolveRefs({ a: { $comment: 1, b: 2 } }, context)).toThrow(
+			'Invalid $comment at ".a"',
+		);
+	});
+});
+
+describe("resolveRefs $each", () => {
+	const context: ResolverContext = {
+		slots: {
+			build: "anthropic/sonnet",
+			agents: [
+				{ name: "docs", model: "openai/gpt-5" },
+				{ name: "review", model: "google/gemini" },
+			],
+		},
+	};
+
+	it("expands keyed entries alongside static entries", () => {
+		const template = {
+			agent: {
+				$each: "#/slots/agents",
+				$key: "#/item/name",
+				$template: { model: { $ref: "#/item/model" } },
+				build: { model: { $ref: "#/slots/build" } },
+			},
+		};
+		expect(resolveRefs(template, context)).toEqual({
+			agent: {
+				build: { model: "anthropic/sonnet" },
+				docs: { model: "openai/gpt-5" },
+				review: { model: "google/gemini" },
+			},
+		});
+	});
+
+	it("expands to an array without $key", () => {
+		const template = {
+			models: { $each: "#/slots/agents", $template: { $ref: "#/item/model" } },
+		};
+		expect(resolveRefs(template, context)).toEqual({
+			models: ["openai/gpt-5", "google/gemini"],
+		});
+	});
+
+	it("throws on duplicate keys", () => {
+		const template = {
+			agent: {
+				$each: "#/slots/agents",
+				$key: "#/item/name",
+				$template: {},
+				docs: {},
+			},
+		};
+		expect(() => resolveRefs(template, context)).toThrow(
+			'duplicate key "docs"',
+		);
+	});
+
+	it("treats Object.prototype names as plain keys", () => {
+		const template = {
+			agent: {
+				$each: "#/slots/agents",
+				$key: "#/item/name",
+				$template: { model: { $ref: "#/item/model" } },
+			},
+		};
+		const resolved = resolveRefs(template, {
+			slots: {
+				agents: [
+					{ name: "constructor", model: "openai/gpt-5" },
+					{ name: "__proto__", model: "google/gemini" },
+				],
+			},
+		}) as { agent: Record<string, unknown> };
+		expect(Object.keys(resolved.agent)).toEqual(["constructor", "__proto__"]);
+	});
+
+	it("throws on #/item pointers outside $each", () => {
+		const template = { model: { $ref: "#/item/model" } };
+		expect(() => resolveRefs(template, context)).toThrow(
+			"only valid inside a $each template",
+		);
+	});
+});
+
+describe("resolveRefs $if", () => {
+	const context: ResolverContext = {
+		slots: { use_context7: false, mode: "fast", model: "openai/gpt-5" },
+	};
+
+	it("omits the key when false and there is no $else", () => {
+		const template = {
+			mcp: {
+				context7: { $if: { slot: "use_context7" }, $then: { type: "remote" } },
+				exa: { type: "remote" },
+			},
+		};
+		expect(resolveRefs(template, context)).toEqual({
+			mcp: { exa: { type: "remote" } },
+		});
+	});
+
+	it("resolves $then or $else by equality", () => {
+		const template = {
+			model: {
+				$if: { slot: "mode", equals: "fast" },
+				$then: { $ref: "#/slots/model" },
+				$else: "anthropic/opus",
+			},
+			effort: {
+				$if: { slot: "mode", in: ["deep", "auto"] },
+				$then: "high",
+				$else: "low",
+			},
+		};
+		expect(resolveRefs(template, context)).toEqual({
+			model: "openai/gpt-5",
+			effort: "low",
+		});
+	});
+
+	it("drops array elements whose condition is false", () => {
+		const template = {
+			plugins: [
+				"base",
+				{ $if: { slot: "use_context7" }, $then: "context7" },
+				{ $if: { not: { slot: "use_context7" } }, $then: "fallback" },
+			],
+		};
+		expect(resolveRefs(template, context)).toEqual({
+			plugins: ["base", "fallback"],
+		});
+	});
+
+	it("throws on unknown slots and sibling keys", () => {
+		expect(() =>
+			resolveRefs({ x: { $if: { slot: "missing" }, $then: 1 } }, context),
+		).toThrow('slot "missing" not found in context');
+		expect(() =>
+			resolveRefs(
+				{ x: { $if: { slot: "mode" }, $then: 1, extra: true } },
+				context,
+			),
+		).toThrow("Invalid $if: found sibling keys");
+	});
+});
+
+describe("resolveRefs interpolation", () => {
+	const context: ResolverContext = {
+		slots: {
+			api_key: "{env:OPENAI_API_KEY}",
+			model: "openai/gpt-5",
+			temperature: 0.2,
+			tags: ["a", "b"],
+			agents: [{ name: "docs" }],
+		},
+	};
+
+	it("embeds slot and item values in strings", () => {
+		const template = {
+			apiKey: "${#/slots/api_key}",
+			description: "Runs ${#/slots/model} at ${#/slots/temperature}",
+			prompts: {
+				$each: "#/slots/agents",
+				$template: "./prompts/${#/item/name}.md",
+			},
+		};
+		expect(resolveRefs(template, context)).toEqual({
+			apiKey: "{env:OPENAI_API_KEY}",
+			description: "Runs openai/gpt-5 at 0.2",
+			prompts: ["./prompts/docs.md"],
+		});
+	});
+
+	it("treats $${ as a literal ${", () => {
+		expect(
+			resolveRefs({ shell: "echo $${HOME} ${#/slots/model}" }, context),
+		).toEqual({ shell: "echo ${HOME} openai/gpt-5" });
+	});
+
+	it("reports coercion errors with the template path", () => {
+		expect(() =>
+			resolveRefs({ agent: { tags: "Tags: ${#/slots/tags}" } }, context),
+		).toThrow(
+			'Cannot interpolate "#/slots/tags" at ".agent.tags": value is a list',
+		);
+	});
+
+	it("rejects unterminated placeholders", () => {
+		expect(() => resolveRefs({ x: "${#/slots/model" }, context)).toThrow(
+			'Invalid interpolation at ".x": unterminated',
+		);
+	});
+});
+
 describe("buildResolverContext", () => {
 	it("builds flat slots context from harness and values", () => {
-		const harness = {
-			id: "test",
-			name: "Test",
-			description: "Test harness",
+		const harness = createTestHarness({
 			slots: {
 				ultrabrain: {
-					type: "model" as const,
+					type: "model",
 					label: "Ultrabrain Model",
 					default: "anthropic/claude-sonnet-4",
 				},
 				quick: {
-					type: "model" as const,
+					type: "model",
 					label: "Quick Model",
 					default: "anthropic/claude-haiku-3",
 				},
 			},
-			flow: [{ id: "test", title: "Test", slots: [] }],
-			outputs: [{ path: "test.txt", template: "test" }],
-			templates: [{ id: "test", content: "test" }],
-		};
+		});
 
 		const slotValues = {
 			ultrabrain: "openai/gpt-5",
@@ -161,24 +560,154 @@ describe("buildResolverContext", () => {
 	});
 
 	it("applies defaults for missing values", () => {
-		const harness = {
-			id: "test",
-			name: "Test",
-			description: "Test harness",
+		const harness = createTestHarness({
 			slots: {
 				model: {
-					type: "model" as const,
+					type: "model",
 					label: "Model",
 					default: "anthropic/claude-sonnet-4",
 				},
 			},
-			flow: [{ id: "test", title: "Test", slots: [] }],
-			outputs: [{ path: "test.txt", template: "test" }],
-			templates: [{ id: "test", content: "test" }],
-		};
+		});
 
 		const context = buildResolverContext(harness, {});
 
 		expect(context.slots.model).toBe("anthropic/claude-sonnet-4");
 	});
+
+	it("renders envRef slots as {env:NAME}", () => {
+		const harness = createTestHarness({
+			slots: {
+				api_key: {
+					type: "envRef",
+					label: "API Key",
+					default: "OPENAI_API_KEY",
+				},
+				base_url: { type: "envRef", label: "Base URL" },
+			},
+		});
+
+		const context = buildResolverContext(harness, {});
+
+		expect(context.slots.api_key).toBe("{env:OPENAI_API_KEY}");
+		expect(context.slots.base_url).toBeUndefined();
+	});
+
+	describe("profile context", () => {
+		const harness = createTestHarness({
+			slots: {
+				build: { type: "model", label: "Build", default: "openai/gpt-5" },
+				agents: {
+					type: "group",
+					label: "Agents",
+					fields: {
+						name: { type: "text", label: "Name" },
+						model: { type: "model", label: "Model" },
+					},
+					default: [],
+				},
+			},
+		});
+		const runtime = {
+			componentId: "p-abc12345",
+			createdAt: "2026-01-01T00:00:00.000Z",
+		};
+
+		it("exposes harness metadata and runtime values under #/meta", () => {
+			const context = buildResolverContext(harness, {}, runtime);
+
+			expect(
+				resolveRefs(
+					{
+						harness: { $ref: "#/meta/harness" },
+						header: "${#/meta/harness/name} ${#/meta/componentId}",
+						createdAt: { $ref: "#/meta/createdAt" },
+					},
+					context,
+				),
+			).toEqual({
+				harness: { id: "test", name: "Test", version: 1 },
+				header: "Test p-abc12345",
+				createdAt: "2026-01-01T00:00:00.000Z",
+			});
+		});
+
+		it("uses the selected providers, else the chosen models' providers", () => {
+			const slotValues = {
+				agents: [{ name: "docs", model: "anthropic/claude-sonnet-4" }],
+			};
+			const selected = buildResolverContext(harness, slotValues, {
+				...runtime,
+				providers: ["openai", "openrouter", "openai"],
+			});
+			const derived = buildResolverContext(harness, slotValues);
+
+			expect(resolveRefs({ $ref: "#/providers" }, selected)).toEqual([
+				"openai",
+				"openrouter",
+			]);
+			expect(resolveRefs({ $ref: "#/providers/1" }, derived)).toBe("anthropic");
+		});
+
+		it("rejects unknown meta keys and missing runtime values", () => {
+			const context = buildResolverContext(harness, {});
+
+			expect(() => resolveRefs({ $ref: "#/meta/id" }, context)).toThrow(
+				'meta key "id" is not available',
+			);
+			expect(() =>
+				resolveRefs({ $ref: "#/meta/componentId" }, context),
+			).toThrow('meta key "componentId" is not available');
+		});
+	});
+});
+
+describe("getSubmissionWithDefaults defaultFrom", () => {
+	const harness = createTestHarness({
+		slots: {
+			split_models: { type: "boolean", label: "Split Models", default: true },
+			orchestrator: {
+				type: "model",
+				label: "Orchestrator",
+				visibleWhen: { slot: "split_models", equals: true },
+			},
+			coder: {
+				type: "model",
+				label: "Coder",
+				defaultFrom: "orchestrator",
+				default: "anthropic/claude-haiku-3",
+			},
+			explorer: { type: "model", label: "Explorer", defaultFrom: "coder" },
+		},
+	});
+
+	it("inherits the source value transitively", () => {
+		const values = getSubmissionWithDefaults(harness, {
+			orchestrator: "openai/gpt-5",
+		});
+
+		expect(values.coder).toBe("openai/gpt-5");
+		expect(values.explorer).toBe("openai/gpt-5");
+	});
+
+	it("prefers the slot's own value over the inherited one", () => {
+		const values = getSubmissionWithDefaults(harness, {
+			orchestrator: "openai/gpt-5",
+			coder: "anthropic/claude-sonnet-4",
+		});
+
+		expect(values.coder).toBe("anthropic/claude-sonnet-4");
+		expect(values.explorer).toBe("anthropic/claude-sonnet-4");
+	});
+
+	it("falls back to its own default when the source is hidden", () => {
+		const values = getSubmissionWithDefaults(harness, {
+			split_models: false,
+			orchestrator: "openai/gpt-5",
+		});
+
+		expect(values.orchestrator).toBeUndefined();
+		expect(values.coder).toBe("anthropic/claude-haiku-3");
+		expect(values.explorer).toBe("anthropic/claude-haiku-3");
+	});
 });
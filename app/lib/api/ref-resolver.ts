@@ -7,74 +7,458 @@
  *   Template: { "model": { "$ref": "#/slots/orchestrator" } }
  *   Context: { slots: { orchestrator: "openai/gpt-5" } }
  *   Result: { "model": "openai/gpt-5" }
+ *
+ * Group slots are expanded with $each, which resolves its template once
+ * per instance with "#/item/<fieldId>" pointing at the instance's fields:
+ *   Template: { "agent": { "$each": "#/slots/agents", "$key": "#/item/name",
+ *               "$template": { "model": { "$ref": "#/item/model" } } } }
+ *   Context: { slots: { agents: [{ name: "docs", model: "openai/gpt-5" }] } }
+ *   Result: { "agent": { "docs": { "model": "openai/gpt-5" } } }
+ *
+ * $if includes a value only when a slot condition holds. Without $else, a
+ * false condition omits the key (or array element) entirely:
+ *   Template: { "mcp": { "context7": { "$if": { "slot": "use_context7" },
+ *               "$then": { "type": "remote" } } } }
+ *   Context: { slots: { use_context7: false } }
+ *   Result: { "mcp": {} }
+ *
+ * "#/meta/..." reads profile metadata (harness id/name/version, componentId,
+ * createdAt) and "#/providers" the selected provider IDs.
+ *
+ * $merge deep-merges objects in order (later entries win); template
+ * fragments are shared templates, referenced as "#/fragments/<name>":
+ *   Template: { "build": { "$merge": [{ "$ref": "#/fragments/agent" },
+ *               { "tools": { "write": false } }] } }
+ *   Fragments: { agent: { "tools": { "read": true, "write": true } } }
+ *   Result: { "build": { "tools": { "read": true, "write": false } } }
+ *
+ * Strings embed slot or item values with "${<pointer>}" ("$${" is a literal "${"):
+ *   Template: { "prompt": "./prompts/${#/item/name}.md" }
+ *   Context: { slots: {}, item: { name: "docs" } }
+ *   Result: { "prompt": "./prompts/docs.md" }
  */
 
-import type { HarnessConfig } from "~/lib/harness-schema";
+import type { HarnessConfig, SlotDefinition } from "~/lib/harness-schema";
+import {
+	evaluateCondition,
+	getConditionSlotIds,
+	getHiddenSlotIds,
+	type SlotCondition,
+	SlotConditionSchema,
+} from "../slot-conditions.js";
 
 const MAX_DEPTH = 100;
 
+/**
+ * Read-only profile metadata, available as "#/meta/...".
+ */
+export interface ResolverMeta {
+	harness: { id: string; name: string; version: number };
+	componentId?: string; // set once the profile has an ID
+	createdAt?: string; // ISO 8601 creation timestamp
+}
+
 /**
  * Context for resolving $ref pointers.
  */
 export interface ResolverContext {
 	slots: Record<string, unknown>; // slotId → value (flat)
+	item?: Record<string, unknown>; // current $each instance (fieldId → value)
+	meta?: ResolverMeta; // "#/meta/..."
+	providers?: string[]; // "#/providers": selected provider IDs
+	fragments?: Record<string, unknown>; // "#/fragments/<name>": reusable templates
+	strictRefs?: boolean; // dry run: a plain $ref to an unset value is an error
+}
+
+/**
+ * Values known only when a profile is created, used for "#/meta" and
+ * "#/providers".
+ */
+export interface ProfileRuntime {
+	componentId: string;
+	createdAt: string;
+	providers?: string[]; // providers selected in the wizard
+}
+
+const EACH_KEYS = new Set(["$each", "$key", "$template", "$comment"]);
+
+const IF_KEYS = new Set(["$if", "$then", "$else", "$comment"]);
+
+// Returned for a false $if without $else or an unset optional $ref:
+// the parent drops the key/element
+const OMIT = Symbol("omit");
+
+// "$comment" annotations travel with resolved objects and lists in a
+// non-enumerable property, so JSON.stringify drops them (see jsonc.ts)
+const COMMENTS = Symbol("comments");
+
+/**
+ * Key of a root template's own comment in its CommentMap.
+ */
+export const COMMENT_HEADER = Symbol("header");
+
+/**
+ * Comment lines by object key or list index.
+ */
+export type CommentMap = Map<string | number | typeof COMMENT_HEADER, string[]>;
+
+interface IfObject {
+	$if: SlotCondition;
+	$then: unknown;
+	$else?: unknown;
+}
+
+interface EachObject {
+	$each: string;
+	$key?: string;
+	$template: unknown;
+	[staticKey: string]: unknown;
+}
+
+/**
+ * Comment lines of the template node at a key or list index: its
+ * "$comment" (a string or list of strings; newlines split lines).
+ */
+function getCommentLines(node: unknown, path: string): string[] | undefined {
+	if (typeof node !== "object" || node === null || Array.isArray(node)) {
+		return undefined;
+	}
+	if (!("$comment" in node)) return undefined;
+
+	const comment = (node as { $comment: unknown }).$comment;
+	const lines =
+		typeof comment === "string"
+			? [comment]
+			: Array.isArray(comment) &&
+					comment.every((line) => typeof line === "string")
+				? comment
+				: undefined;
+	if (!lines) {
+		throw new Error(
+			`Invalid $comment at "${path}": must be a string or a list of strings`,
+		);
+	}
+	return lines.flatMap((line) => line.split("\n"));
+}
+
+function attachComments<T extends object>(target: T, comments: CommentMap): T {
+	if (comments.size > 0) {
+		Object.defineProperty(target, COMMENTS, {
+			value: comments,
+			configurable: true,
+		});
+	}
+	return target;
+}
+
+/**
+ * Comments collected for a resolved object or list, if any.
+ */
+export function getComments(value: unknown): CommentMap | undefined {
+	if (typeof value !== "object" || value === null) return undefined;
+	return (value as { [COMMENTS]?: CommentMap })[COMMENTS];
+}
+
+interface RefObject {
+	$ref: string;
+	$optional?: boolean;
+}
+
+const MERGE_KEYS = new Set(["$merge", "$arrays", "$comment"]);
+
+const ARRAY_STRATEGIES = ["replace", "concat", "union"] as const;
+
+type ArrayStrategy = (typeof ARRAY_STRATEGIES)[number];
+
+interface MergeObject {
+	$merge: unknown[];
+	$arrays?: ArrayStrategy;
 }
 
 /**
  * Check if a value is a $ref object.
- * A $ref object must have exactly one key: "$ref"
- * Fails fast if $ref has sibling keys (no merge behavior).
+ * A $ref object has the key "$ref" and optionally "$optional": true and
+ * a "$comment".
+ * Fails fast if $ref has other sibling keys (no merge behavior).
  */
-function isRefObject(value: unknown): value is { $ref: string } {
+function isRefObject(value: unknown): value is RefObject {
 	if (typeof value !== "object" || value === null) return false;
 	if (!("$ref" in value)) return false;
 
-	const keys = Object.keys(value);
-	if (keys.length !== 1) {
+	const siblings = Object.keys(value).filter(
+		(k) => k !== "$ref" && k !== "$optional" && k !== "$comment",
+	);
+	if (siblings.length > 0) {
 		throw new Error(
-			`Invalid $ref: found sibling keys ${JSON.stringify(keys.filter((k) => k !== "$ref"))}. ` +
+			`Invalid $ref: found sibling keys ${JSON.stringify(siblings)}. ` +
 				`$ref objects cannot have other properties.`,
 		);
 	}
 
-	if (typeof (value as { $ref: unknown }).$ref !== "string") {
+	const ref = value as { $ref: unknown; $optional?: unknown };
+	if (typeof ref.$ref !== "string") {
 		throw new Error(`Invalid $ref: value must be a string`);
 	}
+	if (ref.$optional !== undefined && ref.$optional !== true) {
+		throw new Error(`Invalid $ref: "$optional" must be true when present`);
+	}
+
+	return true;
+}
+
+/**
+ * Resolve a $ref object. An unset value (undefined) from an "$optional" ref
+ * returns OMIT so the parent drops the key or array element; a plain ref
+ * to an unset value is an error when context.strictRefs is set.
+ */
+function resolveRef(
+	ref: RefObject,
+	context: ResolverContext,
+	depth: number,
+	path: string,
+): unknown {
+	const parsed = parseJsonPointer(ref.$ref);
+	const value =
+		parsed.root === "fragments"
+			? resolveFragment(parsed, ref.$ref, context, depth, path)
+			: resolvePointer(ref.$ref, context);
+	if (value !== undefined) return value;
+	if (ref.$optional) return OMIT;
+	if (context.strictRefs) {
+		throw new Error(
+			`Failed to resolve "${ref.$ref}" at "${path}": value is unset. ` +
+				`Add "$optional": true to omit the key when it is unset.`,
+		);
+	}
+	return value;
+}
+
+/**
+ * Check if a value is a $each object.
+ * Keys other than $each/$key/$template are static entries, which are
+ * only allowed alongside $key (the result is then an object).
+ */
+function isEachObject(value: unknown): value is EachObject {
+	if (typeof value !== "object" || value === null) return false;
+	if (!("$each" in value)) return false;
+
+	const each = value as Record<string, unknown>;
+	if (typeof each.$each !== "string") {
+		throw new Error(`Invalid $each: value must be a JSON Pointer string`);
+	}
+	if (!("$template" in each)) {
+		throw new Error(`Invalid $each: missing "$template"`);
+	}
+	if (each.$key !== undefined && typeof each.$key !== "string") {
+		throw new Error(`Invalid $each: "$key" must be a JSON Pointer string`);
+	}
+
+	const staticKeys = Object.keys(each).filter((k) => !EACH_KEYS.has(k));
+	const unknownKeys = staticKeys.filter((k) => k.startsWith("$"));
+	if (unknownKeys.length > 0) {
+		throw new Error(
+			`Invalid $each: unknown keys ${JSON.stringify(unknownKeys)}. ` +
+				`Allowed keys are "$each", "$key", "$template" and "$comment".`,
+		);
+	}
+	if (staticKeys.length > 0 && each.$key === undefined) {
+		throw new Error(
+			`Invalid $each: static entries ${JSON.stringify(staticKeys)} require "$key"`,
+		);
+	}
+
+	return true;
+}
+
+/**
+ * Check if a value is a $if object.
+ * Only "$then" and the optional "$else" may accompany "$if", which must
+ * be a slot condition (same forms as `visibleWhen`).
+ */
+function isIfObject(value: unknown): value is IfObject {
+	if (typeof value !== "object" || value === null) return false;
+	if (!("$if" in value)) return false;
+
+	const unknownKeys = Object.keys(value).filter((k) => !IF_KEYS.has(k));
+	if (unknownKeys.length > 0) {
+		throw new Error(
+			`Invalid $if: found sibling keys ${JSON.stringify(unknownKeys)}. ` +
+				`Allowed keys are "$if", "$then", "$else" and "$comment".`,
+		);
+	}
+	if (!("$then" in value)) {
+		throw new Error(`Invalid $if: missing "$then"`);
+	}
+	if (!SlotConditionSchema.safeParse(value.$if).success) {
+		throw new Error(
+			`Invalid $if: condition must be a slot condition (e.g. { "slot": "use_context7", "equals": true })`,
+		);
+	}
 
 	return true;
 }
 
+/**
+ * Check if a value is a $merge object.
+ * "$merge" must be a list of templates; "$arrays" optionally picks how
+ * lists under the same key are combined.
+ */
+function isMergeObject(value: unknown): value is MergeObject {
+	if (typeof value !== "object" || value === null) return false;
+	if (!("$merge" in value)) return false;
+
+	const unknownKeys = Object.keys(value).filter((k) => !MERGE_KEYS.has(k));
+	if (unknownKeys.length > 0) {
+		throw new Error(
+			`Invalid $merge: found sibling keys ${JSON.stringify(unknownKeys)}. ` +
+				`Allowed keys are "$merge", "$arrays" and "$comment".`,
+		);
+	}
+
+	const merge = value as { $merge: unknown; $arrays?: unknown };
+	if (!Array.isArray(merge.$merge)) {
+		throw new Error(`Invalid $merge: value must be a list of objects`);
+	}
+	if (
+		merge.$arrays !== undefined &&
+		!ARRAY_STRATEGIES.some((strategy) => strategy === merge.$arrays)
+	) {
+		throw new Error(
+			`Invalid $merge: "$arrays" must be one of ${ARRAY_STRATEGIES.map((s) => `"${s}"`).join(", ")}`,
+		);
+	}
+
+	return true;
+}
+
+const POINTER_ROOTS = [
+	"slots",
+	"item",
+	"meta",
+	"providers",
+	"fragments",
+] as const;
+
+type PointerRoot = (typeof POINTER_ROOTS)[number];
+
+/**
+ * Keys available under "#/meta".
+ */
+export const META_KEYS = ["harness", "componentId", "createdAt"] as const;
+
+export type ParsedPointer = {
+	root: PointerRoot;
+	id: string; // slot ID, field ID, meta key or fragment name ("" for "#/providers")
+	segments: string[]; // derived sub-pointers after the ID
+};
+
+const POINTER_ID_LABELS: Record<Exclude<PointerRoot, "providers">, string> = {
+	slots: "slot ID",
+	item: "field ID",
+	meta: "meta key",
+	fragments: "fragment name",
+};
+
+function isPointerRoot(value: string | undefined): value is PointerRoot {
+	return POINTER_ROOTS.some((root) => root === value);
+}
+
 /**
  * Parse a JSON Pointer string and validate format.
- * Only accepts #/slots/<slotId> format.
+ * Accepts #/slots/<slotId>, #/item/<fieldId> inside $each templates,
+ * #/meta/<key>, #/providers and #/fragments/<name> (in $ref only),
+ * optionally followed by derived segments (see resolveSegment).
  *
- * @param pointer - JSON Pointer string (e.g., "#/slots/orchestrator")
- * @returns slotId
+ * @param pointer - JSON Pointer string (e.g., "#/slots/orchestrator/provider")
+ * @returns Pointer root, ID and derived segments
  */
-function parseJsonPointer(pointer: string): string {
-	// Must start with #/slots/
-	if (!pointer.startsWith("#/slots/")) {
+export function parseJsonPointer(pointer: string): ParsedPointer {
+	const [prefix, root, ...rest] = pointer.split("/");
+
+	// Must start with one of the known roots
+	if (prefix !== "#" || !isPointerRoot(root)) {
 		throw new Error(
-			`Invalid JSON Pointer "${pointer}": must start with "#/slots/"`,
+			`Invalid JSON Pointer "${pointer}": must start with "#/slots/", "#/item/", "#/meta/", "#/providers" or "#/fragments/"`,
 		);
 	}
 
-	// Extract slot ID
-	const slotId = pointer.slice(8); // Remove "#/slots/" prefix
+	// Segments are RFC 6901 tokens: "~1" is "/", "~0" is "~"
+	const decode = (segment: string) => {
+		if (segment === "") {
+			throw new Error(`Invalid JSON Pointer "${pointer}": empty path segment`);
+		}
+		return segment.replaceAll("~1", "/").replaceAll("~0", "~");
+	};
 
-	// Must not be empty
-	if (slotId === "") {
-		throw new Error(`Invalid JSON Pointer "${pointer}": slot ID is empty`);
+	// "#/providers" is the whole list; segments index into it
+	if (root === "providers") {
+		return { root, id: "", segments: rest.map(decode) };
 	}
 
-	// Must not contain additional path segments
-	if (slotId.includes("/")) {
+	// Extract slot ID, field ID or meta key, then any derived segments
+	const [id = "", ...rawSegments] = rest;
+
+	// Must not be empty
+	if (id === "") {
 		throw new Error(
-			`Invalid JSON Pointer "${pointer}": nested paths are not supported. Use flat slot IDs only (e.g., "#/slots/orchestrator")`,
+			`Invalid JSON Pointer "${pointer}": ${POINTER_ID_LABELS[root]} is empty`,
 		);
 	}
 
-	return slotId;
+	return { root, id, segments: rawSegments.map(decode) };
+}
+
+/**
+ * Look up the value a pointer's root and ID name, before derived segments.
+ */
+function resolvePointerRoot(
+	{ root, id }: ParsedPointer,
+	pointer: string,
+	context: ResolverContext,
+): unknown {
+	switch (root) {
+		case "item":
+			if (!context.item) {
+				throw new Error(
+					`Failed to resolve "${pointer}": "#/item/" pointers are only valid inside a $each template`,
+				);
+			}
+			if (!(id in context.item)) {
+				throw new Error(
+					`Failed to resolve "${pointer}": field "${id}" not found in item`,
+				);
+			}
+			return context.item[id];
+
+		case "meta":
+			if (!context.meta || !(id in context.meta)) {
+				throw new Error(
+					`Failed to resolve "${pointer}": meta key "${id}" is not available (use harness, componentId or createdAt)`,
+				);
+			}
+			return context.meta[id as keyof ResolverMeta];
+
+		case "providers":
+			if (!context.providers) {
+				throw new Error(
+					`Failed to resolve "${pointer}": the provider list is not available in this context`,
+				);
+			}
+			return context.providers;
+
+		case "fragments":
+			throw new Error(
+				`Failed to resolve "${pointer}": "#/fragments/" pointers are only valid in $ref`,
+			);
+
+		case "slots":
+			if (!(id in context.slots)) {
+				throw new Error(
+					`Failed to resolve "${pointer}": slot "${id}" not found in context`,
+				);
+			}
+			return context.slots[id];
+	}
 }
 
 /**
@@ -85,19 +469,435 @@ function parseJsonPointer(pointer: string): string {
  * @returns Resolved value
  */
 function resolvePointer(pointer: string, context: ResolverContext): unknown {
-	const slotId = parseJsonPointer(pointer);
+	const parsed = parseJsonPointer(pointer);
+	const value = resolvePointerRoot(parsed, pointer, context);
+	return resolveSegments(value, parsed.segments, pointer);
+}
 
-	if (!(slotId in context.slots)) {
+function resolveSegments(
+	value: unknown,
+	segments: string[],
+	pointer: string,
+): unknown {
+	let result = value;
+	for (const segment of segments) {
+		result = resolveSegment(result, segment, pointer);
+	}
+	return result;
+}
+
+/**
+ * Resolve a "#/fragments/<name>" pointer: the fragment is itself a template,
+ * resolved in the current context before any derived segments are applied.
+ */
+function resolveFragment(
+	parsed: ParsedPointer,
+	pointer: string,
+	context: ResolverContext,
+	depth: number,
+	path: string,
+): unknown {
+	if (!context.fragments || !Object.hasOwn(context.fragments, parsed.id)) {
 		throw new Error(
-			`Failed to resolve "${pointer}": slot "${slotId}" not found in context`,
+			`Failed to resolve "${pointer}": template fragment "${parsed.id}" not found`,
 		);
 	}
+	const resolved = resolveNode(
+		context.fragments[parsed.id],
+		context,
+		depth + 1,
+		path,
+	);
+	return resolveSegments(
+		resolved === OMIT ? undefined : resolved,
+		parsed.segments,
+		pointer,
+	);
+}
 
-	return context.slots[slotId];
+/**
+ * Resolve one derived segment of a pointer:
+ *   - "provider" / "model" split a "provider/model" value at the first "/"
+ *   - a non-negative integer indexes a list
+ *   - any other segment reads a key of an object (e.g. a group instance)
+ * Unset values (hidden or empty slots) stay undefined.
+ */
+function resolveSegment(
+	value: unknown,
+	segment: string,
+	pointer: string,
+): unknown {
+	if (value === undefined || value === null) return undefined;
+
+	if (typeof value === "string") {
+		if (segment !== "provider" && segment !== "model") {
+			throw new Error(
+				`Failed to resolve "${pointer}": unsupported segment "${segment}" on a string value. Model values support "provider" and "model".`,
+			);
+		}
+		const separator = value.indexOf("/");
+		if (separator <= 0 || separator === value.length - 1) {
+			throw new Error(
+				`Failed to resolve "${pointer}": "${segment}" requires a "provider/model" value, got "${value}"`,
+			);
+		}
+		return segment === "provider"
+			? value.slice(0, separator)
+			: value.slice(separator + 1);
+	}
+
+	if (Array.isArray(value)) {
+		if (!/^(0|[1-9][0-9]*)$/.test(segment)) {
+			throw new Error(
+				`Failed to resolve "${pointer}": "${segment}" is not a list index`,
+			);
+		}
+		const index = Number(segment);
+		if (index >= value.length) {
+			throw new Error(
+				`Failed to resolve "${pointer}": index ${index} is out of range (list has ${value.length} items)`,
+			);
+		}
+		return value[index];
+	}
+
+	if (typeof value === "object") {
+		if (!Object.hasOwn(value, segment)) {
+			throw new Error(
+				`Failed to resolve "${pointer}": key "${segment}" not found`,
+			);
+		}
+		return (value as Record<string, unknown>)[segment];
+	}
+
+	throw new Error(
+		`Failed to resolve "${pointer}": unsupported segment "${segment}" on a ${typeof value} value`,
+	);
+}
+
+type InterpolationPart = { text: string } | { pointer: string };
+
+/**
+ * Split a string into literal text and "${<pointer>}" placeholders.
+ * "$${" is literal "${". Returns null for an unterminated "${".
+ */
+function splitInterpolation(value: string): InterpolationPart[] | null {
+	const parts: InterpolationPart[] = [];
+	let text = "";
+	let index = 0;
+	while (index < value.length) {
+		if (value.startsWith("$${", index)) {
+			text += "${";
+			index += 3;
+			continue;
+		}
+		if (!value.startsWith("${", index)) {
+			text += value[index];
+			index += 1;
+			continue;
+		}
+
+		const end = value.indexOf("}", index + 2);
+		if (end === -1) return null;
+		parts.push({ text }, { pointer: value.slice(index + 2, end).trim() });
+		text = "";
+		index = end + 1;
+	}
+	parts.push({ text });
+	return parts;
 }
 
 /**
- * Recursively resolve all $ref objects in a template.
+ * Interpolate "${<pointer>}" placeholders in a string value.
+ * "$${" escapes a literal "${"; strings without "${" are returned as-is.
+ */
+function interpolateString(
+	value: string,
+	context: ResolverContext,
+	path: string,
+): string {
+	if (!value.includes("${")) return value;
+
+	const parts = splitInterpolation(value);
+	if (!parts) {
+		throw new Error(
+			`Invalid interpolation at "${path}": unterminated "\${". Use "$\${" for a literal "\${".`,
+		);
+	}
+
+	return parts
+		.map((part) => {
+			if ("text" in part) return part.text;
+			let resolved: unknown;
+			try {
+				resolved = resolvePointer(part.pointer, context);
+			} catch (error) {
+				throw new Error(
+					`Invalid interpolation at "${path}": ${error instanceof Error ? error.message : String(error)}`,
+				);
+			}
+			return coerceInterpolatedValue(resolved, part.pointer, path);
+		})
+		.join("");
+}
+
+/**
+ * Convert an interpolated value to text.
+ * Only strings, numbers and booleans can be embedded in a string.
+ */
+function coerceInterpolatedValue(
+	value: unknown,
+	pointer: string,
+	path: string,
+): string {
+	if (typeof value === "string") return value;
+	if (typeof value === "number" || typeof value === "boolean") {
+		return String(value);
+	}
+
+	const kind =
+		value === undefined
+			? "unset"
+			: value === null
+				? "null"
+				: Array.isArray(value)
+					? "a list"
+					: `of type ${typeof value}`;
+	throw new Error(
+		`Cannot interpolate "${pointer}" at "${path}": value is ${kind}. ` +
+			`Only strings, numbers and booleans can be embedded in a string.`,
+	);
+}
+
+/**
+ * Resolve a $if object to its $then or $else branch.
+ * Returns OMIT when the condition is false and there is no $else.
+ */
+function resolveIf(
+	template: IfObject,
+	context: ResolverContext,
+	depth: number,
+	path: string,
+): unknown {
+	for (const slotId of getConditionSlotIds(template.$if)) {
+		if (!(slotId in context.slots)) {
+			throw new Error(
+				`Failed to resolve $if at "${path}": slot "${slotId}" not found in context`,
+			);
+		}
+	}
+
+	if (evaluateCondition(template.$if, context.slots)) {
+		return resolveNode(template.$then, context, depth + 1, path);
+	}
+	if ("$else" in template) {
+		return resolveNode(template.$else, context, depth + 1, path);
+	}
+	return OMIT;
+}
+
+/**
+ * Expand a $each object: resolve $template once per instance.
+ * Without $key the result is an array; with $key it is an object keyed by
+ * each instance's key, after any static entries.
+ */
+function resolveEach(
+	template: EachObject,
+	context: ResolverContext,
+	depth: number,
+	path: string,
+): unknown {
+	const instances = resolvePointer(template.$each, context) ?? []; // hidden groups expand to nothing
+	if (!Array.isArray(instances)) {
+		throw new Error(
+			`Invalid $each at "${path}": "${template.$each}" does not resolve to a list`,
+		);
+	}
+
+	const itemContexts = instances.map(
+		(item): ResolverContext => ({
+			...context,
+			item: item as Record<string, unknown>,
+		}),
+	);
+
+	const comments: CommentMap = new Map();
+	const itemComment = getCommentLines(template.$template, `${path}.$template`);
+
+	if (template.$key === undefined) {
+		const items = itemContexts
+			.map((itemContext, index) =>
+				resolveNode(
+					template.$template,
+					itemContext,
+					depth + 1,
+					`${path}[${index}]`,
+				),
+			)
+			.filter((item) => item !== OMIT);
+		if (itemComment) {
+			items.forEach((_, index) => {
+				comments.set(index, itemComment);
+			});
+		}
+		return attachComments(items, comments);
+	}
+
+	// Null prototype: instance keys such as "constructor" are plain keys
+	const result: Record<string, unknown> = Object.create(null);
+	for (const [key, value] of Object.entries(template)) {
+		if (EACH_KEYS.has(key)) continue;
+		const keyPath = `${path}.${key}`;
+		const resolved = resolveNode(value, context, depth + 1, keyPath);
+		if (resolved === OMIT) continue;
+		result[key] = resolved;
+		const lines = getCommentLines(value, keyPath);
+		if (lines) comments.set(key, lines);
+	}
+
+	for (const itemContext of itemContexts) {
+		const key = resolvePointer(template.$key, itemContext);
+		if (typeof key !== "string" || key === "") {
+			throw new Error(
+				`Invalid $each at "${path}": "${template.$key}" must resolve to a non-empty string`,
+			);
+		}
+		if (Object.hasOwn(result, key)) {
+			throw new Error(`Invalid $each at "${path}": duplicate key "${key}"`);
+		}
+		const resolved = resolveNode(
+			template.$template,
+			itemContext,
+			depth + 1,
+			`${path}.${key}`,
+		);
+		if (resolved === OMIT) continue;
+		result[key] = resolved;
+		if (itemComment) comments.set(key, itemComment);
+	}
+
+	return attachComments(result, comments);
+}
+
+/**
+ * Resolve a $merge object: deep-merge its entries in order, later entries
+ * winning. Entries that resolve to nothing (false $if, unset optional
+ * $ref) are skipped; every other entry must be an object.
+ */
+function resolveMerge(
+	template: MergeObject,
+	context: ResolverContext,
+	depth: number,
+	path: string,
+): Record<string, unknown> {
+	const strategy = template.$arrays ?? "replace";
+	let merged: Record<string, unknown> = {};
+
+	template.$merge.forEach((entry, index) => {
+		const entryPath = `${path}.$merge[${index}]`;
+		const resolved = resolveNode(entry, context, depth + 1, entryPath);
+		if (resolved === OMIT || resolved === undefined) return;
+		if (describeMergeKind(resolved) !== "an object") {
+			throw new Error(
+				`Invalid $merge at "${entryPath}": entry is ${describeMergeKind(resolved)}, expected an object`,
+			);
+		}
+		merged = deepMerge(
+			merged,
+			resolved as Record<string, unknown>,
+			strategy,
+			path,
+		);
+	});
+
+	return merged;
+}
+
+function describeMergeKind(value: unknown): string {
+	if (value === null) return "null";
+	if (Array.isArray(value)) return "a list";
+	if (typeof value === "object") return "an object";
+	return `a ${typeof value}`;
+}
+
+/**
+ * Deep-merge source into target (both unchanged). Objects merge key by
+ * key, lists follow the array strategy, and other values are replaced.
+ * A key holding different kinds of values (e.g. an object and a string)
+ * is a type conflict.
+ */
+function deepMerge(
+	target: Record<string, unknown>,
+	source: Record<string, unknown>,
+	strategy: ArrayStrategy,
+	path: string,
+): Record<string, unknown> {
+	const result = { ...target };
+	const comments: CommentMap = new Map([
+		...(getComments(target) ?? []),
+		...(getComments(source) ?? []),
+	]);
+	for (const [key, value] of Object.entries(source)) {
+		// Unset values never clear what earlier entries set
+		if (value === undefined) continue;
+
+		const current = result[key];
+		if (current === undefined) {
+			result[key] = value;
+			continue;
+		}
+
+		const keyPath = `${path}.${key}`;
+		const currentKind = describeMergeKind(current);
+		const kind = describeMergeKind(value);
+		if (currentKind !== kind) {
+			throw new Error(
+				`Invalid $merge at "${keyPath}": cannot merge ${kind} into ${currentKind}`,
+			);
+		}
+
+		if (Array.isArray(current) && Array.isArray(value)) {
+			result[key] = mergeArrays(current, value, strategy);
+		} else if (kind === "an object") {
+			result[key] = deepMerge(
+				current as Record<string, unknown>,
+				value as Record<string, unknown>,
+				strategy,
+				keyPath,
+			);
+		} else {
+			result[key] = value;
+		}
+	}
+	return attachComments(result, comments);
+}
+
+function mergeArrays(
+	current: unknown[],
+	value: unknown[],
+	strategy: ArrayStrategy,
+): unknown[] {
+	switch (strategy) {
+		case "replace":
+			return value;
+		case "concat":
+			return [...current, ...value];
+		case "union": {
+			// Structural equality, first occurrence wins
+			const seen = new Set(current.map((item) => JSON.stringify(item)));
+			const added = value.filter((item) => {
+				const key = JSON.stringify(item);
+				if (seen.has(key)) return false;
+				seen.add(key);
+				return true;
+			});
+			return [...current, ...added];
+		}
+	}
+}
+
+/**
+ * Recursively resolve all $ref, $each, $if and $merge objects in a template.
  *
  * @param template - Template object with $ref placeholders
  * @param context - Context for resolving pointers
@@ -110,6 +910,31 @@ export function resolveRefs(
 	context: ResolverContext,
 	depth = 0,
 	path = "",
+): unknown {
+	const result = resolveNode(template, context, depth, path);
+	// A top-level $if or optional $ref with nothing to include resolves to undefined
+	if (result === OMIT) return undefined;
+
+	// The root template's own comment heads the file
+	const header = getCommentLines(template, path);
+	if (header && typeof result === "object" && result !== null) {
+		const comments: CommentMap = new Map(getComments(result));
+		comments.set(COMMENT_HEADER, header);
+		attachComments(result, comments);
+	}
+	return result;
+}
+
+/**
+ * Resolve one template node. May return OMIT (from a false $if or an unset
+ * optional $ref), which
+ * arrays and objects drop instead of emitting.
+ */
+function resolveNode(
+	template: unknown,
+	context: ResolverContext,
+	depth: number,
+	path: string,
 ): unknown {
 	// Cycle/depth protection
 	if (depth > MAX_DEPTH) {
@@ -124,58 +949,335 @@ export function resolveRefs(
 		return template;
 	}
 
-	// Primitives pass through
+	// Strings may embed values with "${<pointer>}"
+	if (typeof template === "string") {
+		return interpolateString(template, context, path);
+	}
+
+	// Other primitives pass through
 	if (typeof template !== "object") {
 		return template;
 	}
 
 	// Handle $ref objects
 	if (isRefObject(template)) {
-		return resolvePointer(template.$ref, context);
+		return resolveRef(template, context, depth, path);
+	}
+
+	// Handle $if objects
+	if (isIfObject(template)) {
+		return resolveIf(template, context, depth, path);
+	}
+
+	// Handle $each objects
+	if (isEachObject(template)) {
+		return resolveEach(template, context, depth, path);
+	}
+
+	// Handle $merge objects
+	if (isMergeObject(template)) {
+		return resolveMerge(template, context, depth, path);
 	}
 
 	// Handle arrays
+	const comments: CommentMap = new Map();
 	if (Array.isArray(template)) {
-		return template.map((item, index) =>
-			resolveRefs(item, context, depth + 1, `${path}[${index}]`),
-		);
+		const items: unknown[] = [];
+		template.forEach((item, index) => {
+			const itemPath = `${path}[${index}]`;
+			const resolved = resolveNode(item, context, depth + 1, itemPath);
+			if (resolved === OMIT) return;
+			const lines = getCommentLines(item, itemPath);
+			if (lines) comments.set(items.length, lines);
+			items.push(resolved);
+		});
+		return attachComments(items, comments);
 	}
 
-	// Handle objects
+	// Handle objects ("$comment" annotates the key holding this object)
 	const result: Record<string, unknown> = {};
 	for (const [key, value] of Object.entries(template)) {
-		result[key] = resolveRefs(value, context, depth + 1, `${path}.${key}`);
+		if (key === "$comment") continue;
+		const keyPath = `${path}.${key}`;
+		const resolved = resolveNode(value, context, depth + 1, keyPath);
+		if (resolved === OMIT) continue;
+		result[key] = resolved;
+		const lines = getCommentLines(value, keyPath);
+		if (lines) comments.set(key, lines);
 	}
 
-	return result;
+	return attachComments(result, comments);
+}
+
+/**
+ * Collect every $if condition in a template, with its JSON Pointer-style
+ * location (e.g. "/mcp/context7/$if"). Used by validateHarness to check
+ * conditions and dry-run both branches. Malformed $if objects are skipped;
+ * resolving them reports the error.
+ */
+export function getTemplateConditions(
+	template: unknown,
+	path = "",
+): { path: string; condition: SlotCondition }[] {
+	if (typeof template !== "object" || template === null) return [];
+
+	const entries = Array.isArray(template)
+		? template.map((item, index): [string, unknown] => [String(index), item])
+		: Object.entries(template);
+	const found: { path: string; condition: SlotCondition }[] = [];
+
+	if ("$if" in template) {
+		const parsed = SlotConditionSchema.safeParse(template.$if);
+		if (parsed.success) {
+			found.push({ path: `${path}/$if`, condition: parsed.data });
+		}
+	}
+	for (const [key, value] of entries) {
+		if (key === "$if") continue;
+		found.push(...getTemplateConditions(value, `${path}/${key}`));
+	}
+
+	return found;
+}
+
+/**
+ * Collect the static entry keys of every keyed $each in a template, by the
+ * pointer it iterates. Instance keys must not repeat them, so slot
+ * validation reserves them for the group (see parseHarnessConfig).
+ */
+export function getEachStaticKeys(
+	template: unknown,
+): { each: string; keys: string[] }[] {
+	if (typeof template !== "object" || template === null) return [];
+
+	const found: { each: string; keys: string[] }[] = [];
+	const node = template as Record<string, unknown>;
+	if (
+		!Array.isArray(template) &&
+		typeof node.$each === "string" &&
+		node.$key !== undefined
+	) {
+		found.push({
+			each: node.$each,
+			keys: Object.keys(node).filter((key) => !EACH_KEYS.has(key)),
+		});
+	}
+	for (const value of Object.values(template)) {
+		found.push(...getEachStaticKeys(value));
+	}
+	return found;
+}
+
+/**
+ * A pointer read by a template. `each` is the pointer of the innermost
+ * enclosing $each, which "#/item/..." pointers read from.
+ */
+export interface TemplatePointer {
+	path: string; // e.g. "/agent/build/model"
+	pointer: string;
+	each?: string;
+}
+
+/**
+ * Collect every pointer a template reads through $ref, $each, $key and
+ * "${...}" interpolation, with its JSON Pointer-style location. Used by
+ * validateHarness for static analysis; $if conditions are collected by
+ * getTemplateConditions. Malformed constructs are skipped.
+ */
+export function getTemplatePointers(
+	template: unknown,
+	path = "",
+	each?: string,
+): TemplatePointer[] {
+	if (typeof template === "string") {
+		const parts = splitInterpolation(template) ?? [];
+		return parts.flatMap((part) =>
+			"pointer" in part ? [{ path, pointer: part.pointer, each }] : [],
+		);
+	}
+	if (typeof template !== "object" || template === null) return [];
+
+	if (Array.isArray(template)) {
+		return template.flatMap((item, index) =>
+			getTemplatePointers(item, `${path}/${index}`, each),
+		);
+	}
+
+	const node = template as Record<string, unknown>;
+	if (typeof node.$ref === "string") {
+		return [{ path, pointer: node.$ref, each }];
+	}
+
+	const found: TemplatePointer[] = [];
+	const isEach = typeof node.$each === "string";
+	const itemEach = isEach ? (node.$each as string) : each;
+	if (isEach) {
+		found.push({ path: `${path}/$each`, pointer: node.$each as string, each });
+		if (typeof node.$key === "string") {
+			found.push({ path: `${path}/$key`, pointer: node.$key, each: itemEach });
+		}
+	}
+	for (const [key, value] of Object.entries(node)) {
+		if (key === "$if" || key === "$comment") continue;
+		if (isEach && (key === "$each" || key === "$key")) continue;
+		found.push(
+			...getTemplatePointers(
+				value,
+				`${path}/${key}`,
+				key === "$template" ? itemEach : each,
+			),
+		);
+	}
+	return found;
 }
 
 /**
  * Applies slot defaults to user-provided values.
+ * Slots with `defaultFrom` inherit the source slot's value before falling
+ * back to their own default. Group instances get their field defaults filled in.
+ * Slots hidden by `visibleWhen` resolve to undefined, so they are never emitted
+ * (and never pass their value on to inheriting slots).
  * Used at runtime (API) and build-time (validation) for consistency.
  */
 export function getSubmissionWithDefaults(
 	harness: HarnessConfig,
 	userValues: Record<string, unknown> = {},
+): Record<string, unknown> {
+	// Visibility applies defaultFrom itself, like every other caller
+	const hiddenSlotIds = getHiddenSlotIds(harness, userValues);
+	return resolveSlotDefaults(harness, userValues, hiddenSlotIds);
+}
+
+/**
+ * Resolve every slot to its user value, inherited value or default.
+ * Sources are resolved first, so chains (a → b → c) inherit transitively.
+ */
+function resolveSlotDefaults(
+	harness: HarnessConfig,
+	userValues: Record<string, unknown>,
+	hiddenSlotIds: Set<string>,
 ): Record<string, unknown> {
 	const result: Record<string, unknown> = {};
 
-	for (const [slotId, slotDef] of Object.entries(harness.slots)) {
-		// User value takes precedence, then default
-		result[slotId] = userValues[slotId] ?? slotDef.default;
+	const resolve = (slotId: string, stack: string[]): unknown => {
+		if (slotId in result) return result[slotId];
+		const slotDef = harness.slots[slotId];
+		if (!slotDef || hiddenSlotIds.has(slotId)) return undefined;
+
+		// Guard: cycles are rejected by validateHarness (Fail Fast)
+		if (stack.includes(slotId)) {
+			throw new Error(
+				`Circular defaultFrom: ${[...stack, slotId].join(" → ")}`,
+			);
+		}
+
+		// User value takes precedence, then the source slot's value, then default
+		const inherited = slotDef.defaultFrom
+			? resolve(slotDef.defaultFrom, [...stack, slotId])
+			: undefined;
+		const value = userValues[slotId] ?? inherited ?? slotDef.default;
+		result[slotId] =
+			slotDef.type === "group" && Array.isArray(value)
+				? value.map((instance) => applyGroupFieldDefaults(slotDef, instance))
+				: value;
+		return result[slotId];
+	};
+
+	for (const slotId of Object.keys(harness.slots)) {
+		resolve(slotId, []);
+	}
+
+	for (const slotId of hiddenSlotIds) {
+		result[slotId] = undefined;
 	}
 
 	return result;
 }
 
+/**
+ * Fill in field defaults for one group instance.
+ * Every field is present so "#/item/<fieldId>" always resolves.
+ */
+function applyGroupFieldDefaults(
+	slotDef: Extract<SlotDefinition, { type: "group" }>,
+	instance: unknown,
+): Record<string, unknown> {
+	const values = (instance ?? {}) as Record<string, unknown>;
+	const result: Record<string, unknown> = {};
+	for (const [fieldId, fieldDef] of Object.entries(slotDef.fields)) {
+		result[fieldId] = values[fieldId] ?? fieldDef.default;
+	}
+	return result;
+}
+
 /**
  * Build a resolver context from harness config and slot values.
- * Applies defaults for missing values.
+ * Applies defaults for missing values, and renders envRef slots as
+ * OpenCode's "{env:NAME}" substitution so raw secrets never appear.
+ * "#/providers" is the wizard's provider selection when given, else the
+ * providers of the chosen models; componentId and createdAt are only
+ * available with a runtime.
  */
 export function buildResolverContext(
 	harness: HarnessConfig,
 	slotValues: Record<string, unknown>,
+	runtime?: ProfileRuntime,
 ): ResolverContext {
 	const slots = getSubmissionWithDefaults(harness, slotValues);
-	return { slots };
+	const providers = runtime?.providers
+		? [...new Set(runtime.providers)]
+		: getModelProviderIds(harness, slots);
+
+	for (const [slotId, slotDef] of Object.entries(harness.slots)) {
+		if (slotDef.type === "envRef" && typeof slots[slotId] === "string") {
+			slots[slotId] = formatEnvRef(slots[slotId]);
+		}
+	}
+
+	const meta: ResolverMeta = {
+		harness: {
+			id: harness.id,
+			name: harness.name,
+			version: harness.schemaVersion ?? 1,
+		},
+	};
+	if (runtime) {
+		meta.componentId = runtime.componentId;
+		meta.createdAt = runtime.createdAt;
+	}
+
+	return { slots, meta, providers, fragments: harness.templateFragments };
+}
+
+/**
+ * Unique provider IDs of the models chosen in model slots and group
+ * model fields, in slot order. Expects values with defaults applied.
+ */
+export function getModelProviderIds(
+	harness: HarnessConfig,
+	slotValues: Record<string, unknown>,
+): string[] {
+	const models = Object.entries(harness.slots).flatMap(
+		([slotId, slotDef]): unknown[] => {
+			const value = slotValues[slotId];
+			if (slotDef.type === "model") return [value];
+			if (slotDef.type !== "group" || !Array.isArray(value)) return [];
+			return value.flatMap((instance: Record<string, unknown>) =>
+				Object.entries(slotDef.fields)
+					.filter(([, fieldDef]) => fieldDef.type === "model")
+					.map(([fieldId]) => instance[fieldId]),
+			);
+		},
+	);
+	const providerIds = models
+		.map((model) => (typeof model === "string" ? model.split("/")[0] : ""))
+		.filter((id) => id !== "");
+	return [...new Set(providerIds)];
+}
+
+/**
+ * Format an environment variable name as OpenCode's substitution syntax.
+ */
+export function formatEnvRef(name: string): string {
+	return `{env:${name}}`;
 }
@@ -1,11 +1,17 @@
 import { z } from "zod";
+import { getSubmissionWithDefaults } from "~/lib/api/ref-resolver";
 import { getHarness } from "~/lib/harness-registry";
+import { getHiddenSlotIds } from "~/lib/slot-conditions";
+
+// Provider IDs are emitted into configs: keep the list bounded
+const MAX_PROVIDERS = 50;
 
 // Base profile request schema (without harness-specific validation)
 export const createProfileRequestSchema = z
 	.object({
 		harnessId: z.string().min(1),
 		slotValues: z.record(z.string(), z.unknown()),
+		providers: z.array(z.string().min(1)).max(MAX_PROVIDERS).optional(),
 	})
 	.strict();
 
@@ -26,14 +32,18 @@ export function validateProfileRequest(
 		return { valid: false, error: `Unknown harness: "${request.harnessId}"` };
 	}
 
-	// Validate all required slots are present
+	// Validate all required slots are present (hidden slots are not required)
 	const harnessSlotIds = Object.keys(harness.slots);
+	const hiddenSlotIds = getHiddenSlotIds(harness, request.slotValues);
+	const effectiveValues = getSubmissionWithDefaults(
+		harness,
+		request.slotValues,
+	);
 	for (const slotId of harnessSlotIds) {
-		const slotValue = request.slotValues[slotId];
-		const slotDef = harness.slots[slotId];
+		if (hiddenSlotIds.has(slotId)) continue;
 
-		// Check if value is missing and no default is available
-		if (slotValue === undefined && slotDef?.default === undefined) {
+		// Check if value is missing and no inherited value or default is available
+		if (effectiveValues[slotId] === undefined) {
 			return {
 				valid: false,
 				error: `Missing required slot: "${slotId}"`,
@@ -21,10 +21,23 @@ export interface ProvidersResponse {
 }
 
 // Model types
+export type ModelModality = "text" | "image" | "audio" | "video" | "pdf";
+
+// Capability flags kept from models.dev (used by model slot `requires`)
+export interface ModelCapabilities {
+	toolCall: boolean;
+	reasoning: boolean;
+	attachment: boolean;
+	contextLimit?: number;
+	inputModalities: ModelModality[];
+	outputModalities: ModelModality[];
+}
+
 export interface ModelListItem {
 	id: string;
 	name?: string;
 	status?: "active" | "deprecated" | "alpha" | "beta";
+	capabilities?: ModelCapabilities;
 }
 
 export interface ProviderModelsResponse {
@@ -41,11 +54,13 @@ export interface ModelSlotSelection {
 export interface CreateProfileRequest {
 	harnessId: string;
 	slotValues: Record<string, unknown>;
+	providers?: string[]; // providers selected in the wizard ("#/providers")
 }
 
 export interface GeneratedFile {
-	path: string;
+	path: string; // registry path
 	content: string;
+	target?: string; // install path in the profile directory (default: path)
 }
 
 export interface CreateProfileResponse {
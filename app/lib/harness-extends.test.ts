@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+import { resolveHarnessExtends } from "./harness-extends";
+
+const base = {
+	name: "Base",
+	slots: {
+		model: { type: "model", label: "Model" },
+		temperature: { type: "number", label: "Temperature", default: 0.3 },
+	},
+	flow: [
+		{ id: "models", label: "Models", sections: [] },
+		{ id: "tuning", label: "Tuning", sections: [] },
+	],
+	outputs: [{ path: "opencode.json", label: "Config" }],
+	templates: [{ output: "opencode.json", template: {} }],
+};
+
+const extend = (child: Record<string, unknown>) =>
+	resolveHarnessExtends({ extends: "base", ...child }, "child", { base });
+
+describe("resolveHarnessExtends", () => {
+	it("returns configs without extends unchanged", () => {
+		expect(resolveHarnessExtends(base, "base", {})).toBe(base);
+	});
+
+	it("inherits entries and appends new ones", () => {
+		const merged = extend({
+			name: "Child",
+			slots: { effort: { type: "boolean", label: "Effort" } },
+			flow: [{ id: "extras", label: "Extras", sections: [] }],
+		}) as typeof base;
+
+		expect(merged.name).toBe("Child");
+		expect(Object.keys(merged.slots)).toEqual([
+			"model",
+			"temperature",
+			"effort",
+		]);
+		expect(merged.flow.map((page) => page.id)).toEqual([
+			"models",
+			"tuning",
+			"extras",
+		]);
+		expect(merged.outputs).toEqual(base.outputs);
+	});
+
+	it("shallow-merges $override entries in place", () => {
+		const merged = extend({
+			slots: { temperature: { $override: true, default: 0.1 } },
+			flow: [{ id: "models", $override: true, label: "Pick Models" }],
+		}) as typeof base;
+
+		expect(merged.slots.temperature).toEqual({
+			type: "number",
+			label: "Temperature",
+			default: 0.1,
+		});
+		expect(merged.flow[0]).toEqual({
+			id: "models",
+			label: "Pick Models",
+			sections: [],
+		});
+	});
+
+	it("drops $remove entries", () => {
+		const merged = extend({
+			slots: { temperature: { $remove: true } },
+			flow: [{ id: "tuning", $remove: true }],
+		}) as typeof base;
+
+		expect(Object.keys(merged.slots)).toEqual(["model"]);
+		expect(merged.flow.map((page) => page.id)).toEqual(["models"]);
+	});
+
+	it("reports every conflict together", () => {
+		expect(() =>
+			extend({
+				slots: {
+					model: { type: "model", label: "Other" },
+					missing: { $remove: true },
+				},
+				outputs: [{ path: "extra.json", $override: true, label: "Extra" }],
+			}),
+		).toThrow(
+			'Invalid extends in "child": Slot "model" is already defined by "base"; set "$override": true to change it or "$remove": true to drop it; Slot "missing" sets "$remove" but is not defined by "base"; Output "extra.json" sets "$override" but is not defined by "base"',
+		);
+	});
+
+	it("flattens chains and rejects cycles", () => {
+		const rawHarnesses = {
+			base,
+			middle: { extends: "base", name: "Middle" },
+			loop_a: { extends: "loop_b" },
+			loop_b: { extends: "loop_a" },
+		};
+		const merged = resolveHarnessExtends(
+			{ extends: "middle" },
+			"child",
+			rawHarnesses,
+		) as typeof base;
+		expect(merged.name).toBe("Middle");
+		expect(Object.keys(merged.slots)).toEqual(["model", "temperature"]);
+
+		expect(() =>
+			resolveHarnessExtends(rawHarnesses.loop_a, "loop_a", rawHarnesses),
+		).toThrow("Circular extends: loop_a → loop_b → loop_a");
+	});
+
+	it("rejects unknown bases", () => {
+		expect(() =>
+			resolveHarnessExtends({ extends: "nope" }, "child", { base }),
+		).toThrow('Unknown base harness "nope"');
+	});
+});
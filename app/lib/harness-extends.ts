@@ -0,0 +1,237 @@
+/**
+ * Harness Inheritance
+ *
+ * A harness JSON may declare `"extends": "<harnessId>"` to inherit the base
+ * harness's slots, flow pages, outputs and templates. Entries are matched by
+ * key (slot ID, page `id`, output `path`, template `output`, template
+ * fragment name):
+ *
+ *   - A new key adds the entry (pages, outputs and templates are appended).
+ *   - Redefining an inherited key is a conflict unless the entry sets
+ *     `"$override": true`, which shallow-merges it over the inherited entry.
+ *   - `"$remove": true` drops the inherited entry.
+ *
+ * Other top-level fields (name, description, ...) replace the base value.
+ * Chains are flattened recursively before schema parsing; cycles are rejected.
+ *
+ * Example:
+ *   { "extends": "opencode-native",
+ *     "slots": { "build_temperature": { "$override": true, "default": 0.1 },
+ *                "enable_otel": { "$remove": true } } }
+ */
+
+type RawObject = Record<string, unknown>;
+
+/**
+ * Raised when an `extends` chain cannot be flattened.
+ * Collects every conflict so they can be reported together.
+ */
+export class HarnessExtendsError extends Error {
+	constructor(
+		public harnessId: string,
+		public issues: string[],
+	) {
+		super(`Invalid extends in "${harnessId}": ${issues.join("; ")}`);
+	}
+}
+
+// Array sections are merged by a key field on each entry
+const ENTRY_SECTIONS = [
+	{ field: "flow", key: "id", label: "Page" },
+	{ field: "outputs", key: "path", label: "Output" },
+	{ field: "templates", key: "output", label: "Template" },
+] as const;
+
+const REMOVED = Symbol("removed");
+
+function isObject(value: unknown): value is RawObject {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Flatten a raw harness config's `extends` chain.
+ * Returns the raw config unchanged when it does not extend another harness.
+ *
+ * @param raw - Raw harness JSON
+ * @param harnessId - ID of the harness being resolved (for error messages)
+ * @param rawHarnesses - Raw harness JSON by ID, used to look up bases
+ * @returns Raw config with inherited entries merged in
+ */
+export function resolveHarnessExtends(
+	raw: unknown,
+	harnessId: string,
+	rawHarnesses: Record<string, unknown>,
+	stack: string[] = [],
+): unknown {
+	if (!isObject(raw) || raw.extends === undefined) return raw;
+
+	const baseId = raw.extends;
+	if (typeof baseId !== "string") {
+		throw new HarnessExtendsError(harnessId, [
+			`"extends" must be a harness ID`,
+		]);
+	}
+
+	// Guard: a harness may not (indirectly) extend itself (Fail Fast)
+	const chain = [...stack, harnessId];
+	if (chain.includes(baseId)) {
+		throw new HarnessExtendsError(harnessId, [
+			`Circular extends: ${[...chain, baseId].join(" → ")}`,
+		]);
+	}
+
+	if (!(baseId in rawHarnesses)) {
+		throw new HarnessExtendsError(harnessId, [
+			`Unknown base harness "${baseId}"`,
+		]);
+	}
+	const base = resolveHarnessExtends(
+		rawHarnesses[baseId],
+		baseId,
+		rawHarnesses,
+		chain,
+	);
+	if (!isObject(base)) {
+		throw new HarnessExtendsError(harnessId, [
+			`Base harness "${baseId}" is not an object`,
+		]);
+	}
+
+	const issues: string[] = [];
+	const merged: RawObject = { ...base, ...raw };
+	merged.slots = mergeRecord(base.slots, raw.slots, "Slot", baseId, issues);
+	merged.templateFragments = mergeRecord(
+		base.templateFragments,
+		raw.templateFragments,
+		"Template fragment",
+		baseId,
+		issues,
+	);
+	for (const section of ENTRY_SECTIONS) {
+		merged[section.field] = mergeEntries(
+			base[section.field],
+			raw[section.field],
+			section,
+			baseId,
+			issues,
+		);
+	}
+
+	if (issues.length > 0) {
+		throw new HarnessExtendsError(harnessId, issues);
+	}
+	return merged;
+}
+
+/**
+ * Merge one entry over its inherited counterpart (undefined if new).
+ * Records a conflict when an inherited entry is redefined without $override.
+ */
+function mergeEntry(
+	inherited: unknown,
+	entry: unknown,
+	label: string,
+	baseId: string,
+	issues: string[],
+): unknown {
+	// Non-objects are left for schema validation to report
+	if (!isObject(entry)) return entry;
+
+	const { $override, $remove, ...rest } = entry;
+
+	if ($remove === true) {
+		if (inherited === undefined) {
+			issues.push(`${label} sets "$remove" but is not defined by "${baseId}"`);
+		}
+		return REMOVED;
+	}
+
+	if ($override === true) {
+		if (inherited === undefined) {
+			issues.push(
+				`${label} sets "$override" but is not defined by "${baseId}"`,
+			);
+			return rest;
+		}
+		return { ...(inherited as RawObject), ...rest };
+	}
+
+	if (inherited !== undefined) {
+		issues.push(
+			`${label} is already defined by "${baseId}"; set "$override": true to change it or "$remove": true to drop it`,
+		);
+	}
+	return rest;
+}
+
+/**
+ * Merge a record section (slots, template fragments): inherited entries
+ * first, in base order.
+ */
+function mergeRecord(
+	baseRecord: unknown,
+	childRecord: unknown,
+	label: string,
+	baseId: string,
+	issues: string[],
+): unknown {
+	if (childRecord === undefined) return baseRecord;
+	if (!isObject(childRecord) || !isObject(baseRecord)) return childRecord;
+
+	const result: RawObject = { ...baseRecord };
+	for (const [key, entry] of Object.entries(childRecord)) {
+		const merged = mergeEntry(
+			result[key],
+			entry,
+			`${label} "${key}"`,
+			baseId,
+			issues,
+		);
+		if (merged === REMOVED) {
+			delete result[key];
+		} else {
+			result[key] = merged;
+		}
+	}
+	return result;
+}
+
+/**
+ * Merge a keyed array section: overrides stay in place, new entries append.
+ */
+function mergeEntries(
+	baseEntries: unknown,
+	childEntries: unknown,
+	section: (typeof ENTRY_SECTIONS)[number],
+	baseId: string,
+	issues: string[],
+): unknown {
+	if (childEntries === undefined) return baseEntries;
+	if (!Array.isArray(childEntries) || !Array.isArray(baseEntries)) {
+		return childEntries;
+	}
+
+	const result = [...baseEntries];
+	for (const entry of childEntries) {
+		const key = isObject(entry) ? entry[section.key] : undefined;
+		const index =
+			key === undefined
+				? -1
+				: result.findIndex((e) => isObject(e) && e[section.key] === key);
+		const merged = mergeEntry(
+			index === -1 ? undefined : result[index],
+			entry,
+			`${section.label} "${String(key)}"`,
+			baseId,
+			issues,
+		);
+		if (merged === REMOVED) {
+			if (index !== -1) result.splice(index, 1);
+		} else if (index === -1) {
+			result.push(merged);
+		} else {
+			result[index] = merged;
+		}
+	}
+	return result;
+}
@@ -13,19 +13,33 @@ export const HARNESS_IDS = [
 	"oh-my-opencode",
 ] as const;
 
-// Parse at load time; full validation via `bun run harness:validate`
+// Raw configs by ID, so a harness can resolve the base it `extends`
+const RAW_HARNESSES: Record<string, unknown> = {
+	"kdco-workspace": kdcoWorkspaceRaw,
+	"opencode-native": opencodeNativeRaw,
+	"oh-my-opencode": ohMyOpencodeRaw,
+};
+
+// Parse at load time (flattening `extends` chains); full validation via
+// `bun run harness:validate`
 const kdcoWorkspace = parseHarnessConfig(
 	kdcoWorkspaceRaw,
 	"kdco-workspace.json",
+	RAW_HARNESSES,
 );
 const opencodeNative = parseHarnessConfig(
 	opencodeNativeRaw,
 	"opencode-native.json",
+	RAW_HARNESSES,
+);
+const ohMyOpencode = parseHarnessConfig(
+	ohMyOpencodeRaw,
+	"oh-my-opencode.json",
+	RAW_HARNESSES,
 );
-const ohMyOpencode = parseHarnessConfig(ohMyOpencodeRaw, "oh-my-opencode.json");
 
 /**
- * Registry of all available harnesses.
+ * Registry of all available harnesses, with inherited entries flattened in.
  * To add a new harness:
  * 1. Create config/harnesses/your-harness.json
  * 2. Import and parse it here
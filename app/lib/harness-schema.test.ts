@@ -0,0 +1,334 @@
+// biome-ignore-all lint/suspicious/noTemplateCurlyInString: templates use "${<pointer>}" interpolation
+import { describe, expect, it } from "vitest";
+import {
+	type HarnessConfig,
+	parseHarnessConfig,
+	validateHarness,
+} from "./harness-schema";
+import type { SlotCondition } from "./slot-conditions";
+import { createTestHarness } from "./test-harness";
+
+describe("validateHarness group keys", () => {
+	const withAgents = (defaultAgents: Record<string, unknown>[]) =>
+		createTestHarness({
+			slots: {
+				agents: {
+					type: "group",
+					label: "Agents",
+					key: "name",
+					fields: { name: { type: "text", label: "Name" } },
+					default: defaultAgents,
+				},
+			},
+			templates: [
+				{
+					output: "opencode.json",
+					template: {
+						agent: {
+							$each: "#/slots/agents",
+							$key: "#/item/name",
+							$template: {},
+							build: {},
+						},
+					},
+				},
+			],
+		});
+
+	it("rejects default instances named like static $each entries", () => {
+		expect(() => validateHarness(withAgents([{ name: "docs" }]))).not.toThrow();
+		expect(() => validateHarness(withAgents([{ name: "build" }]))).toThrow(
+			'Default item is invalid: Name: "build" is reserved. Choose another name',
+		);
+		expect(() =>
+			validateHarness(withAgents([{ name: "constructor" }])),
+		).toThrow('"constructor" is reserved');
+	});
+});
+
+describe("validateHarness group dry run", () => {
+	const withPrompt = (prompt: Record<string, unknown>) =>
+		createTestHarness({
+			slots: {
+				agents: {
+					type: "group",
+					label: "Agents",
+					key: "name",
+					fields: {
+						name: { type: "text", label: "Name" },
+						prompt: { type: "text", label: "Prompt" },
+					},
+					default: [],
+				},
+			},
+			templates: [
+				{
+					output: "opencode.json",
+					template: {
+						agent: {
+							$each: "#/slots/agents",
+							$key: "#/item/name",
+							$template: { prompt },
+						},
+					},
+				},
+			],
+		});
+
+	it("resolves $each templates with optional fields left unset", () => {
+		expect(() =>
+			validateHarness(withPrompt({ $ref: "#/item/prompt", $optional: true })),
+		).not.toThrow();
+		expect(() =>
+			validateHarness(withPrompt({ $ref: "#/item/prompt" })),
+		).toThrow(
+			'Failed to resolve "#/item/prompt" at ".agent.dry-run.prompt": value is unset',
+		);
+	});
+});
+
+describe("parseHarnessConfig model providers", () => {
+	const parseModelSlot = (slot: Record<string, unknown>) => {
+		// Configs get their ID from the filename
+		const { id: _id, ...raw } = createTestHarness();
+		return parseHarnessConfig(
+			{ ...raw, slots: { model: { type: "model", label: "Model", ...slot } } },
+			"test.json",
+		);
+	};
+
+	it("rejects a provider that is both allowed and blocked", () => {
+		expect(() =>
+			parseModelSlot({
+				allowedProviders: ["openai"],
+				blockedProviders: ["openai"],
+			}),
+		).toThrow("A provider cannot be both allowed and blocked");
+	});
+
+	it("rejects a default from a disallowed provider", () => {
+		expect(() =>
+			parseModelSlot({
+				blockedProviders: ["google"],
+				default: "openai/gpt-5",
+			}),
+		).not.toThrow();
+		expect(() =>
+			parseModelSlot({
+				allowedProviders: ["openai"],
+				default: "google/gemini-2.5-pro",
+			}),
+		).toThrow("default must use an allowed provider");
+	});
+});
+
+describe("validateHarness visibleWhen", () => {
+	const withConditions = (a: SlotCondition, b: SlotCondition) =>
+		createTestHarness({
+			slots: {
+				a: { type: "boolean", label: "A", visibleWhen: a },
+				b: { type: "boolean", label: "B", visibleWhen: b },
+				mode: { type: "enum", label: "Mode", options: ["fast", "auto"] },
+			},
+		});
+
+	it("rejects unknown slots and enum values outside the options", () => {
+		expect(() =>
+			validateHarness(withConditions({ slot: "nope" }, { slot: "mode" })),
+		).toThrow("Unknown slot ID in condition: nope");
+		expect(() =>
+			validateHarness(
+				withConditions({ slot: "mode", equals: "slow" }, { slot: "mode" }),
+			),
+		).toThrow(
+			'Condition compares "mode" to "slow", which is not one of its options',
+		);
+	});
+
+	it("rejects conditions that depend on each other", () => {
+		expect(() =>
+			validateHarness(withConditions({ slot: "b" }, { slot: "a" })),
+		).toThrow("Circular visibility conditions: a → b → a");
+	});
+});
+
+describe("validateHarness page conditions", () => {
+	it("only reads slots shown on earlier pages", () => {
+		const harness = (condition: SlotCondition) =>
+			createTestHarness({
+				slots: {
+					early: { type: "boolean", label: "Early" },
+					late: { type: "boolean", label: "Late" },
+				},
+				flow: [
+					{
+						id: "first",
+						label: "First",
+						sections: [{ id: "s1", label: "S1", slots: ["early"] }],
+					},
+					{
+						id: "second",
+						label: "Second",
+						visibleWhen: condition,
+						sections: [{ id: "s2", label: "S2", slots: ["late"] }],
+					},
+				],
+			});
+
+		expect(() => validateHarness(harness({ slot: "early" }))).not.toThrow();
+		expect(() => validateHarness(harness({ slot: "late" }))).toThrow(
+			'Page condition reads slot "late", which is not shown on an earlier page',
+		);
+	});
+});
+
+describe("validateHarness output targets", () => {
+	const withOutputs = (outputs: HarnessConfig["outputs"]) =>
+		createTestHarness({
+			outputs,
+			templates: outputs.map((output) => ({
+				output: output.path,
+				template: {},
+			})),
+		});
+
+	it("accepts nested targets and rejects traversal or shared targets", () => {
+		expect(() =>
+			validateHarness(
+				withOutputs([
+					{ path: "opencode.json", label: "Config" },
+					{ path: "docs.json", label: "Docs", target: "./agent/docs.json" },
+				]),
+			),
+		).not.toThrow();
+		expect(() =>
+			validateHarness(
+				withOutputs([{ path: "a.json", label: "A", target: "../a.json" }]),
+			),
+		).toThrow('Invalid output "a.json": Path traversal not allowed');
+		expect(() =>
+			validateHarness(
+				withOutputs([
+					{ path: "a.json", label: "A", target: "b.json" },
+					{ path: "b.json", label: "B" },
+				]),
+			),
+		).toThrow('Outputs "a.json" and "b.json" both install to "b.json"');
+	});
+});
+
+describe("validateHarness static analysis", () => {
+	const withTemplate = (
+		template: unknown,
+		slots: HarnessConfig["slots"] = {},
+	) =>
+		createTestHarness({
+			slots: {
+				model: { type: "text", label: "Model", default: "gpt-5" },
+				...slots,
+			},
+			flow: [
+				{
+					id: "test",
+					label: "Test",
+					sections: [{ id: "main", label: "Main", slots: ["model"] }],
+				},
+			],
+			templates: [{ output: "opencode.json", template }],
+		});
+
+	it("rejects refs to unknown slots, fields and fragments", () => {
+		expect(() =>
+			validateHarness(withTemplate({ model: "${#/slots/modle}" })),
+		).toThrow("Unknown slot ID in template: modle");
+		expect(() =>
+			validateHarness(
+				withTemplate(
+					{
+						servers: {
+							$each: "#/slots/servers",
+							$template: { url: { $ref: "#/item/uri" } },
+						},
+					},
+					{
+						servers: {
+							type: "group",
+							label: "Servers",
+							fields: { url: { type: "text", label: "URL" } },
+							default: [],
+						},
+					},
+				),
+			),
+		).toThrow('Unknown field "uri" in "#/slots/servers" (fields: url)');
+		expect(() =>
+			validateHarness(withTemplate({ $ref: "#/fragments/missing" })),
+		).toThrow("Unknown template fragment: missing");
+	});
+
+	it("warns about unused slots and template slots outside the flow", () => {
+		const warnings = validateHarness(
+			withTemplate(
+				{ model: { $ref: "#/slots/model" }, theme: { $ref: "#/slots/theme" } },
+				{
+					theme: { type: "text", label: "Theme", default: "dark" },
+					unused: { type: "text", label: "Unused", default: "" },
+				},
+			),
+		);
+		expect(warnings.map(({ path, severity }) => ({ path, severity }))).toEqual([
+			{ path: "/slots/theme", severity: "warning" },
+			{ path: "/slots/unused", severity: "warning" },
+		]);
+	});
+});
+
+describe("validateHarness output schemas", () => {
+	const withAgent = (agent: Record<string, unknown>) =>
+		createTestHarness({
+			slots: {
+				effort: {
+					type: "enum",
+					label: "Effort",
+					options: ["low", "high"],
+					default: "low",
+				},
+			},
+			flow: [
+				{
+					id: "test",
+					label: "Test",
+					sections: [{ id: "main", label: "Main", slots: ["effort"] }],
+				},
+			],
+			outputs: [
+				{ path: "opencode.jsonc", label: "Config", schema: "opencode" },
+			],
+			templates: [
+				{
+					output: "opencode.jsonc",
+					template: {
+						$comment: "Generated",
+						agent: { $comment: "Agents", build: agent },
+					},
+				},
+			],
+		});
+
+	it("rejects generated files that do not match the output schema", () => {
+		expect(() =>
+			validateHarness(
+				withAgent({ reasoningEffort: { $ref: "#/slots/effort" } }),
+			),
+		).not.toThrow();
+		expect(() =>
+			validateHarness(withAgent({ reasoningEffort: "maximum" })),
+		).toThrow(
+			'Template "opencode.jsonc" does not match the "opencode" schema with default values: agent.build.reasoningEffort: Invalid option',
+		);
+	});
+
+	it("allows keys the output schema does not list", () => {
+		expect(() => validateHarness(withAgent({ steps: 5 }))).not.toThrow();
+	});
+});
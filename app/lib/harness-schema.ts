@@ -1,10 +1,52 @@
 import { z } from "zod";
+import { generateComponentId } from "./api/id-generator.js";
+import {
+	getEmittedTemplates,
+	getTemplateFormat,
+	renderTemplate,
+} from "./api/output-format.js";
+import { normalizeOutputPath } from "./api/output-path.js";
 import {
 	buildResolverContext,
+	getEachStaticKeys,
 	getSubmissionWithDefaults,
-	resolveRefs,
+	getTemplateConditions,
+	getTemplatePointers,
+	META_KEYS,
+	type ParsedPointer,
+	parseJsonPointer,
 } from "./api/ref-resolver.js";
 import { DependencyListSchema } from "./dependency-utils.js";
+import {
+	HarnessExtendsError,
+	resolveHarnessExtends,
+} from "./harness-extends.js";
+import {
+	getOutputSchemaIssues,
+	OUTPUT_SCHEMA_NAMES,
+	type OutputSchemaName,
+} from "./output-schemas.js";
+import {
+	type ConditionValue,
+	getConditionLiterals,
+	getConditionSlotIds,
+	getSlotVisibilityDependencies,
+	type SlotCondition,
+	SlotConditionSchema,
+} from "./slot-conditions.js";
+import {
+	describeFragmentUsage,
+	expandSlotFragments,
+	type FragmentUsage,
+} from "./slot-fragments.js";
+import {
+	ENV_VAR_NAME,
+	findDuplicateGroupKey,
+	getGroupInstanceError,
+	getListItemError,
+	getTextError,
+	isProviderAllowed,
+} from "./slot-validation.js";
 
 // ============================================================================
 // Harness ID Derivation
@@ -27,18 +69,65 @@ export function deriveHarnessId(filename: string): string {
 // Slot Schemas (Discriminated Union)
 // ============================================================================
 
-const SlotTypeSchema = z.enum(["model", "number", "enum", "boolean", "text"]);
+const SlotTypeSchema = z.enum([
+	"model",
+	"number",
+	"enum",
+	"multiEnum",
+	"boolean",
+	"text",
+	"envRef",
+	"list",
+	"group",
+]);
 
 const BaseSlotSchema = z.object({
 	type: SlotTypeSchema,
 	label: z.string(),
 	description: z.string().optional(),
+	visibleWhen: SlotConditionSchema.optional(), // hidden slots are not required or emitted
+	defaultFrom: z.string().optional(), // inherit another slot's value until overridden
 });
 
+const ModalitySchema = z.enum(["text", "image", "audio", "video", "pdf"]);
+
+// Capabilities a model must have, checked against models.dev metadata
+const ModelRequirementsSchema = z
+	.object({
+		toolCall: z.boolean().optional(),
+		reasoning: z.boolean().optional(),
+		attachment: z.boolean().optional(),
+		minContext: z.number().int().positive().optional(),
+		modalities: z
+			.object({
+				input: z.array(ModalitySchema).optional(),
+				output: z.array(ModalitySchema).optional(),
+			})
+			.strict()
+			.optional(),
+	})
+	.strict();
+
+export type ModelRequirements = z.infer<typeof ModelRequirementsSchema>;
+
 const ModelSlotSchema = BaseSlotSchema.extend({
 	type: z.literal("model"),
 	default: z.string().optional(),
-});
+	requires: ModelRequirementsSchema.optional(),
+	allowedProviders: z.array(z.string().min(1)).min(1).optional(),
+	blockedProviders: z.array(z.string().min(1)).min(1).optional(),
+})
+	.refine(
+		(data) =>
+			!data.allowedProviders?.some((id) => data.blockedProviders?.includes(id)),
+		{ message: "A provider cannot be both allowed and blocked" },
+	)
+	.refine(
+		(data) =>
+			data.default === undefined ||
+			isProviderAllowed(data, data.default.split("/")[0]),
+		{ message: "default must use an allowed provider", path: ["default"] },
+	);
 
 const NumberSlotSchema = BaseSlotSchema.extend({
 	type: z.literal("number"),
@@ -81,22 +170,240 @@ const EnumSlotSchema = BaseSlotSchema.extend({
 	{ message: "default must be in options" },
 );
 
+const MultiEnumSlotSchema = BaseSlotSchema.extend({
+	type: z.literal("multiEnum"),
+	options: z.array(z.string()).min(1),
+	default: z.array(z.string()).default([]), // untouched sets submit as []
+	minSelected: z.number().int().min(0).optional(),
+	maxSelected: z.number().int().min(1).optional(),
+})
+	.refine(
+		(data) => {
+			if (data.minSelected !== undefined && data.maxSelected !== undefined) {
+				return data.minSelected <= data.maxSelected;
+			}
+			return true;
+		},
+		{ message: "minSelected must be <= maxSelected" },
+	)
+	.refine((data) => data.default.every((v) => data.options.includes(v)), {
+		message: "default values must be in options",
+	})
+	.refine((data) => new Set(data.default).size === data.default.length, {
+		message: "default values must be unique",
+	})
+	.refine(
+		// minSelected is not checked here: an empty default means "user must choose"
+		(data) =>
+			data.maxSelected === undefined || data.default.length <= data.maxSelected,
+		{ message: "default must not exceed maxSelected" },
+	);
+
 const BooleanSlotSchema = BaseSlotSchema.extend({
 	type: z.literal("boolean"),
 	default: z.boolean().optional(),
 });
 
+const TextFormatSchema = z.enum(["url", "glob", "identifier", "path"]);
+
+export type TextFormat = z.infer<typeof TextFormatSchema>;
+
 const TextSlotSchema = BaseSlotSchema.extend({
 	type: z.literal("text"),
 	default: z.string().optional(),
+	pattern: z.string().optional(), // JavaScript regex, unanchored (like JSON Schema)
+	minLength: z.number().int().min(0).optional(),
+	maxLength: z.number().int().min(1).optional(),
+	multiline: z.boolean().optional(),
+	format: TextFormatSchema.optional(),
+})
+	.refine(
+		(data) => {
+			if (data.minLength !== undefined && data.maxLength !== undefined) {
+				return data.minLength <= data.maxLength;
+			}
+			return true;
+		},
+		{ message: "minLength must be <= maxLength" },
+	)
+	.refine((data) => data.pattern === undefined || isValidRegex(data.pattern), {
+		message: "pattern must be a valid regular expression",
+		path: ["pattern"],
+	});
+
+function isValidRegex(pattern: string): boolean {
+	try {
+		new RegExp(pattern);
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+// Stores only an environment variable name; templates receive "{env:NAME}"
+const EnvRefSlotSchema = BaseSlotSchema.extend({
+	type: z.literal("envRef"),
+	default: z
+		.string()
+		.regex(ENV_VAR_NAME, {
+			message: "default must be an environment variable name",
+		})
+		.optional(),
 });
 
+// List items are scalar values validated one by one
+const ListItemSchema = z.discriminatedUnion("type", [
+	z.object({ type: z.literal("text") }),
+	z.object({
+		type: z.literal("number"),
+		min: z.number().optional(),
+		max: z.number().optional(),
+	}),
+	z.object({
+		type: z.literal("enum"),
+		options: z.array(z.string()).min(1),
+	}),
+]);
+
+export type ListItemDefinition = z.infer<typeof ListItemSchema>;
+
+const ListSlotSchema = BaseSlotSchema.extend({
+	type: z.literal("list"),
+	item: ListItemSchema,
+	default: z.array(z.union([z.string(), z.number()])).default([]), // untouched lists submit as []
+	minItems: z.number().int().min(0).optional(),
+	maxItems: z.number().int().min(1).optional(),
+})
+	.refine(
+		(data) => {
+			if (data.minItems !== undefined && data.maxItems !== undefined) {
+				return data.minItems <= data.maxItems;
+			}
+			return true;
+		},
+		{ message: "minItems must be <= maxItems" },
+	)
+	.superRefine((data, ctx) => {
+		// minItems is not checked here: an empty default means "user must add items"
+		if (data.maxItems !== undefined && data.default.length > data.maxItems) {
+			ctx.addIssue({
+				code: "custom",
+				path: ["default"],
+				message: "default must not exceed maxItems",
+			});
+		}
+		data.default.forEach((value, index) => {
+			const error = getListItemError(data.item, value);
+			if (error) {
+				ctx.addIssue({
+					code: "custom",
+					path: ["default", index],
+					message: `default item is invalid: ${error}`,
+				});
+			}
+		});
+	});
+
+// Group fields are scalar slots; templates read them via #/item/<fieldId>
+const GroupFieldSchema = z.discriminatedUnion("type", [
+	ModelSlotSchema,
+	NumberSlotSchema,
+	EnumSlotSchema,
+	BooleanSlotSchema,
+	TextSlotSchema,
+]);
+
+export type GroupFieldDefinition = z.infer<typeof GroupFieldSchema>;
+
+const GroupSlotSchema = BaseSlotSchema.extend({
+	type: z.literal("group"),
+	fields: z
+		.record(
+			z.string().regex(/^[A-Za-z_][A-Za-z0-9_-]*$/, {
+				message: "Field IDs must be identifiers (letters, digits, _ and -)",
+			}),
+			GroupFieldSchema,
+		)
+		.refine((fields) => Object.keys(fields).length > 0, {
+			message: "Groups must define at least one field",
+		}),
+	key: z.string().optional(), // text field naming each instance; values must be unique
+	reservedKeys: z.array(z.string()).optional(), // key values instances may not use; parsing adds static $each keys
+	itemLabel: z.string().optional(), // e.g. "Agent"
+	default: z.array(z.record(z.string(), z.unknown())).default([]), // untouched groups submit as []
+	minItems: z.number().int().min(0).optional(),
+	maxItems: z.number().int().min(1).optional(),
+})
+	.refine(
+		(data) => {
+			if (data.minItems !== undefined && data.maxItems !== undefined) {
+				return data.minItems <= data.maxItems;
+			}
+			return true;
+		},
+		{ message: "minItems must be <= maxItems" },
+	)
+	.superRefine((data, ctx) => {
+		for (const [fieldId, fieldDef] of Object.entries(data.fields)) {
+			if (fieldDef.visibleWhen) {
+				ctx.addIssue({
+					code: "custom",
+					path: ["fields", fieldId, "visibleWhen"],
+					message: "Group fields cannot have visibleWhen conditions",
+				});
+			}
+			if (fieldDef.defaultFrom) {
+				ctx.addIssue({
+					code: "custom",
+					path: ["fields", fieldId, "defaultFrom"],
+					message: "Group fields cannot have defaultFrom",
+				});
+			}
+		}
+		if (data.key !== undefined && data.fields[data.key]?.type !== "text") {
+			ctx.addIssue({
+				code: "custom",
+				path: ["key"],
+				message: "key must name a text field",
+			});
+		}
+		if (data.maxItems !== undefined && data.default.length > data.maxItems) {
+			ctx.addIssue({
+				code: "custom",
+				path: ["default"],
+				message: "default must not exceed maxItems",
+			});
+		}
+		data.default.forEach((instance, index) => {
+			const error = getGroupInstanceError(data, instance);
+			if (error) {
+				ctx.addIssue({
+					code: "custom",
+					path: ["default", index],
+					message: `default item is invalid: ${error}`,
+				});
+			}
+		});
+		const duplicateIndex = findDuplicateGroupKey(data, data.default);
+		if (duplicateIndex !== -1) {
+			ctx.addIssue({
+				code: "custom",
+				path: ["default", duplicateIndex],
+				message: `default items must have unique "${data.key}" values`,
+			});
+		}
+	});
+
 export const SlotSchema = z.discriminatedUnion("type", [
 	ModelSlotSchema,
 	NumberSlotSchema,
 	EnumSlotSchema,
+	MultiEnumSlotSchema,
 	BooleanSlotSchema,
 	TextSlotSchema,
+	EnvRefSlotSchema,
+	ListSlotSchema,
+	GroupSlotSchema,
 ]);
 
 export type SlotDefinition = z.infer<typeof SlotSchema>;
@@ -116,6 +423,7 @@ export const FlowPageSchema = z.object({
 	id: z.string(),
 	label: z.string(),
 	sections: z.array(SectionSchema),
+	visibleWhen: SlotConditionSchema.optional(), // skipped when false; may only read earlier pages
 });
 
 export type Section = z.infer<typeof SectionSchema>;
@@ -128,19 +436,83 @@ export type FlowPage = z.infer<typeof FlowPageSchema>;
 export const HarnessOutputSchema = z.object({
 	path: z.string().min(1),
 	label: z.string().min(1),
+	emitWhen: SlotConditionSchema.optional(), // file is only generated when true
+	target: z.string().min(1).optional(), // install path in the profile (default: path)
+	schema: z.enum(OUTPUT_SCHEMA_NAMES).optional(), // app/config/output-schemas file the content must match
 });
 
 export type HarnessOutput = z.infer<typeof HarnessOutputSchema>;
 
 // ============================================================================
-// Template Definition (JSON with $ref placeholders)
+// Template Definition (JSON with $ref placeholders, or text)
 // ============================================================================
 
-export const HarnessTemplateSchema = z.object({
-	output: z.string(), // matches HarnessOutput.path
-	template: z.record(z.string(), z.unknown()), // JSON object with $ref
+export const TemplateFormatSchema = z.enum([
+	"json",
+	"jsonc",
+	"markdown-frontmatter",
+	"text",
+]);
+
+export type TemplateFormat = z.infer<typeof TemplateFormatSchema>;
+
+// File extensions each format must be written to ("text" allows any)
+const FORMAT_EXTENSIONS: Record<TemplateFormat, string[]> = {
+	json: [".json"],
+	jsonc: [".jsonc"],
+	"markdown-frontmatter": [".md"],
+	text: [],
+};
+
+// Text is a string, or a list of lines (strings, $if blocks) joined by "\n"
+const TextTemplateSchema = z.union([z.string(), z.array(z.unknown())], {
+	error: "must be a string or a list of lines",
 });
 
+const TemplateBodySchemas: Record<TemplateFormat, z.ZodType> = {
+	json: z.record(z.string(), z.unknown()), // JSON object with $ref
+	jsonc: z.record(z.string(), z.unknown()),
+	"markdown-frontmatter": z
+		.object({
+			frontmatter: z.record(z.string(), z.unknown()).optional(), // YAML, resolved like JSON
+			body: TextTemplateSchema,
+		})
+		.strict(),
+	text: TextTemplateSchema,
+};
+
+export const HarnessTemplateSchema = z
+	.object({
+		output: z.string(), // matches HarnessOutput.path
+		format: TemplateFormatSchema.optional(), // default: from the output extension
+		template: z.unknown(), // shape depends on format
+	})
+	.superRefine((data, ctx) => {
+		const format = getTemplateFormat(data);
+		const extensions = FORMAT_EXTENSIONS[format];
+		if (
+			extensions.length > 0 &&
+			!extensions.some((extension) => data.output.endsWith(extension))
+		) {
+			ctx.addIssue({
+				code: "custom",
+				path: data.format ? ["format"] : ["output"],
+				message: data.format
+					? `Format "${format}" requires a ${extensions.join(" or ")} output`
+					: `Set "format" for "${data.output}" (only .json and .jsonc outputs default to JSON)`,
+			});
+		}
+
+		const body = TemplateBodySchemas[format].safeParse(data.template);
+		for (const issue of body.success ? [] : body.error.issues) {
+			ctx.addIssue({
+				code: "custom",
+				path: ["template", ...issue.path],
+				message: `Invalid ${format} template: ${issue.message}`,
+			});
+		}
+	});
+
 export type HarnessTemplate = z.infer<typeof HarnessTemplateSchema>;
 
 const HarnessDependenciesSchema = DependencyListSchema.default([]);
@@ -152,6 +524,7 @@ const HarnessDependenciesSchema = DependencyListSchema.default([]);
 const HarnessConfigSchemaBase = z
 	.object({
 		schemaVersion: z.number().optional(),
+		extends: z.string().optional(), // base harness ID; inherited entries are already merged in
 		name: z.string().min(1),
 		description: z.string(),
 		defaultProfileName: z.string().regex(/^[a-z][a-z0-9._-]{0,31}$/, {
@@ -165,6 +538,14 @@ const HarnessConfigSchemaBase = z
 
 		outputs: z.array(HarnessOutputSchema).min(1),
 		templates: z.array(HarnessTemplateSchema).min(1),
+		templateFragments: z
+			.record(
+				z.string().regex(/^[^/~]+$/, {
+					message: 'Template fragment names cannot contain "/" or "~"',
+				}),
+				z.unknown(),
+			)
+			.optional(), // reusable templates, referenced as "#/fragments/<name>"
 	})
 	.refine(
 		// Ensure output paths are unique
@@ -191,23 +572,36 @@ export type HarnessConfig = z.infer<typeof HarnessConfigSchemaBase> & {
 // Validation
 // ============================================================================
 
+export type ValidationSeverity = "error" | "warning";
+
 export class HarnessValidationError extends Error {
 	constructor(
 		public path: string,
 		message: string,
 		public slotId?: string,
 		public pageId?: string,
+		public severity: ValidationSeverity = "error",
 	) {
 		super(message);
 	}
 }
 
-export function validateHarness(harness: HarnessConfig): void {
+/**
+ * Validate a parsed harness beyond its schema: flow and condition
+ * references, static template analysis and a dry run of every output.
+ *
+ * @throws HarnessValidationError on the first error
+ * @returns Warnings (e.g. unused slots) that do not block the harness
+ */
+export function validateHarness(
+	harness: HarnessConfig,
+): HarnessValidationError[] {
 	const definedSlotIds = new Set(Object.keys(harness.slots));
 	const usedSlotIds = new Set<string>();
 	const pageIds = new Set<string>();
 
 	// Check for duplicate page IDs and validate slot references in flow
+	const earlierPageSlotIds = new Set<string>();
 	for (const page of harness.flow) {
 		if (pageIds.has(page.id)) {
 			throw new HarnessValidationError(
@@ -248,44 +642,774 @@ export function validateHarness(harness: HarnessConfig): void {
 				}
 			}
 		}
+
+		// Page conditions may only read slots shown on earlier pages
+		if (page.visibleWhen) {
+			const conditionPath = `/flow/${page.id}/visibleWhen`;
+			validateCondition(
+				harness,
+				page.visibleWhen,
+				conditionPath,
+				undefined,
+				page.id,
+			);
+			for (const slotId of getConditionSlotIds(page.visibleWhen)) {
+				if (!earlierPageSlotIds.has(slotId)) {
+					throw new HarnessValidationError(
+						conditionPath,
+						`Page condition reads slot "${slotId}", which is not shown on an earlier page`,
+						slotId,
+						page.id,
+					);
+				}
+			}
+		}
+
+		for (const section of page.sections) {
+			for (const slotId of [...section.slots, ...(section.advanced ?? [])]) {
+				earlierPageSlotIds.add(slotId);
+			}
+		}
 	}
 
-	// Check for unused slots (must also check templates - do this after ref-resolver is updated)
-	// For now, just validate flow references
+	// Validate slot visibleWhen conditions (known slots, reachable literals, no cycles)
+	validateSlotVisibility(harness);
+
+	// Output paths and install targets must stay inside the profile directory
+	validateOutputTargets(harness);
+
+	// Output emitWhen conditions must reference known slots and valid enum options
+	harness.outputs.forEach((output, i) => {
+		if (output.emitWhen) {
+			validateCondition(harness, output.emitWhen, `/outputs/${i}/emitWhen`);
+		}
+	});
+
+	// Output schemas apply to JSON content only
+	const outputSchemas = new Map<string, OutputSchemaName>();
+	harness.outputs.forEach((output, i) => {
+		if (!output.schema) return;
+		const template = harness.templates.find((t) => t.output === output.path);
+		const format = template ? getTemplateFormat(template) : undefined;
+		if (format && format !== "json" && format !== "jsonc") {
+			throw new HarnessValidationError(
+				`/outputs/${i}/schema`,
+				`Output "${output.path}" has format "${format}"; only JSON and JSONC outputs can have a schema`,
+			);
+		}
+		outputSchemas.set(output.path, output.schema);
+	});
+
+	// Template $if conditions must reference known slots and valid enum options
+	harness.templates.forEach((template, i) => {
+		for (const { path, condition } of getTemplateConditions(
+			template.template,
+		)) {
+			validateCondition(harness, condition, `/templates/${i}${path}`);
+		}
+	});
+	for (const [name, fragment] of Object.entries(
+		harness.templateFragments ?? {},
+	)) {
+		for (const { path, condition } of getTemplateConditions(fragment)) {
+			validateCondition(
+				harness,
+				condition,
+				`/templateFragments/${name}${path}`,
+			);
+		}
+	}
+
+	// Derived defaults must name a compatible slot, without cycles
+	validateDefaultSources(harness);
+
+	// Text defaults must satisfy their own constraints (length, pattern, format)
+	validateTextDefaults(harness);
 
-	// Dry run: simulate "untouched submit" with all defaults
+	// Default group instances must not use reserved or static $each keys
+	validateGroupDefaultKeys(harness);
+
+	// Static analysis: unresolved template refs, outputs without templates,
+	// unused slots and template slots missing from the flow
+	const findings = analyzeHarness(harness, usedSlotIds);
+	const firstError = findings.find((finding) => finding.severity === "error");
+	if (firstError) throw firstError;
+
+	// Dry run: simulate "untouched submit" with all defaults, once per condition branch
 	// This ensures a user can submit without touching Advanced section
-	try {
-		const mockValues = getSubmissionWithDefaults(harness, {});
-		const context = buildResolverContext(harness, mockValues);
+	const requiredModels = getRequiredModelSamples(harness);
+	// "#/meta" and "#/providers" get a realistic component ID and timestamp;
+	// providers come from the sampled models
+	const runtime = {
+		componentId: generateComponentId(),
+		createdAt: new Date().toISOString(),
+	};
+	for (const scenario of getDryRunScenarios(harness)) {
+		try {
+			const mockValues = getSubmissionWithDefaults(harness, {
+				...requiredModels,
+				...scenario,
+			});
+			const context = {
+				...buildResolverContext(harness, mockValues, runtime),
+				strictRefs: true,
+			};
+
+			// Only outputs emitted in this scenario are resolved
+			const emitted = getEmittedTemplates(harness, context);
+			if (emitted.length === 0) {
+				throw new HarnessValidationError(
+					"/outputs",
+					`No output files are generated with ${describeScenario(scenario)}. At least one output must apply to every submission.`,
+				);
+			}
+
+			for (let i = 0; i < harness.templates.length; i++) {
+				const template = harness.templates[i];
+				if (!emitted.includes(template)) continue;
+				// Clone to avoid mutation; rendering also checks text lines
+				const templateClone = structuredClone(template.template);
+				let content: string;
+				try {
+					content = renderTemplate(
+						{ ...template, template: templateClone },
+						context,
+					);
+				} catch (error) {
+					throw new HarnessValidationError(
+						`/templates/${i}`,
+						`Template "${template.output}" fails with ${describeScenario(scenario)}: ${String(error instanceof Error ? error.message : error)}. ` +
+							`Ensure all slots referenced in templates have defaults or are visible to users.`,
+						undefined,
+						undefined,
+					);
+				}
+
+				// Generated content must match the output's schema
+				const schemaName = outputSchemas.get(template.output);
+				const issues = schemaName
+					? getOutputSchemaIssues(schemaName, content)
+					: [];
+				if (schemaName && issues.length > 0) {
+					throw new HarnessValidationError(
+						`/templates/${i}`,
+						`Template "${template.output}" does not match the "${schemaName}" schema with ${describeScenario(scenario)}: ${issues.join("; ")}`,
+					);
+				}
+			}
+		} catch (error) {
+			if (error instanceof HarnessValidationError) {
+				throw error;
+			}
+			throw new HarnessValidationError(
+				"/templates",
+				`Dry run validation failed: ${String(error instanceof Error ? error.message : error)}`,
+				undefined,
+				undefined,
+			);
+		}
+	}
 
-		for (let i = 0; i < harness.templates.length; i++) {
-			const template = harness.templates[i];
-			// Clone to avoid mutation
-			const templateClone = structuredClone(template.template);
+	return findings;
+}
+
+/**
+ * Validate a condition: every slot it reads must exist, and enum
+ * comparisons must use values from the slot's options.
+ */
+function validateCondition(
+	harness: HarnessConfig,
+	condition: SlotCondition,
+	path: string,
+	slotId?: string,
+	pageId?: string,
+): void {
+	for (const refId of getConditionSlotIds(condition)) {
+		if (!(refId in harness.slots)) {
+			throw new HarnessValidationError(
+				path,
+				`Unknown slot ID in condition: ${refId}`,
+				slotId,
+				pageId,
+			);
+		}
+	}
+
+	for (const [refId, literals] of getConditionLiterals(condition)) {
+		const refDef = harness.slots[refId];
+		if (refDef?.type !== "enum") continue;
+		for (const literal of literals) {
+			if (typeof literal !== "string" || !refDef.options.includes(literal)) {
+				throw new HarnessValidationError(
+					path,
+					`Condition compares "${refId}" to ${JSON.stringify(literal)}, which is not one of its options: ${refDef.options.join(", ")}`,
+					slotId,
+					pageId,
+				);
+			}
+		}
+	}
+}
+
+/**
+ * Validate slot visibleWhen conditions and reject dependency cycles.
+ * Page conditions count as dependencies of every slot shown on the page.
+ */
+function validateSlotVisibility(harness: HarnessConfig): void {
+	for (const [slotId, slotDef] of Object.entries(harness.slots)) {
+		if (!slotDef.visibleWhen) continue;
+		validateCondition(
+			harness,
+			slotDef.visibleWhen,
+			`/slots/${slotId}/visibleWhen`,
+			slotId,
+		);
+	}
+
+	// Depth-first search over "slot → slots its visibility reads"
+	const done = new Set<string>();
+	const visit = (slotId: string, stack: string[]) => {
+		if (done.has(slotId)) return;
+		if (stack.includes(slotId)) {
+			throw new HarnessValidationError(
+				`/slots/${slotId}/visibleWhen`,
+				`Circular visibility conditions: ${[...stack, slotId].join(" → ")}`,
+				slotId,
+			);
+		}
+		for (const refId of getSlotVisibilityDependencies(harness, slotId)) {
+			visit(refId, [...stack, slotId]);
+		}
+		done.add(slotId);
+	};
+	for (const slotId of Object.keys(harness.slots)) {
+		visit(slotId, []);
+	}
+}
+
+/**
+ * Validate `defaultFrom` sources and reject inheritance cycles.
+ * The source must be a slot of the same type whose values are always
+ * valid for the inheriting slot (same options or list item type).
+ */
+function validateDefaultSources(harness: HarnessConfig): void {
+	for (const [slotId, slotDef] of Object.entries(harness.slots)) {
+		if (!slotDef.defaultFrom) continue;
+		const path = `/slots/${slotId}/defaultFrom`;
+		const sourceDef = harness.slots[slotDef.defaultFrom];
+		if (!sourceDef) {
+			throw new HarnessValidationError(
+				path,
+				`Unknown slot ID in defaultFrom: ${slotDef.defaultFrom}`,
+				slotId,
+			);
+		}
+		const error = getDefaultSourceError(slotDef, sourceDef);
+		if (error) {
+			throw new HarnessValidationError(
+				path,
+				`Cannot inherit from "${slotDef.defaultFrom}": ${error}`,
+				slotId,
+			);
+		}
+	}
+
+	// Depth-first search over "slot → slot it inherits from"
+	const done = new Set<string>();
+	const visit = (slotId: string, stack: string[]) => {
+		if (done.has(slotId)) return;
+		if (stack.includes(slotId)) {
+			throw new HarnessValidationError(
+				`/slots/${slotId}/defaultFrom`,
+				`Circular defaultFrom: ${[...stack, slotId].join(" → ")}`,
+				slotId,
+			);
+		}
+		const sourceId = harness.slots[slotId]?.defaultFrom;
+		if (sourceId) visit(sourceId, [...stack, slotId]);
+		done.add(slotId);
+	};
+	for (const slotId of Object.keys(harness.slots)) {
+		visit(slotId, []);
+	}
+}
+
+/**
+ * Explain why a source slot's values may not suit an inheriting slot.
+ */
+function getDefaultSourceError(
+	slotDef: SlotDefinition,
+	sourceDef: SlotDefinition,
+): string | null {
+	if (slotDef.type === "group") {
+		return "group slots cannot inherit values";
+	}
+	if (sourceDef.type !== slotDef.type) {
+		return `it is a ${sourceDef.type} slot, not ${slotDef.type}`;
+	}
+	if (
+		(slotDef.type === "enum" || slotDef.type === "multiEnum") &&
+		(sourceDef.type === "enum" || sourceDef.type === "multiEnum")
+	) {
+		const missing = sourceDef.options.filter(
+			(opt) => !slotDef.options.includes(opt),
+		);
+		if (missing.length > 0) {
+			return `its options ${missing.map((opt) => `"${opt}"`).join(", ")} are not valid here`;
+		}
+	}
+	if (
+		slotDef.type === "list" &&
+		sourceDef.type === "list" &&
+		sourceDef.item.type !== slotDef.item.type
+	) {
+		return `its items are ${sourceDef.item.type}, not ${slotDef.item.type}`;
+	}
+	return null;
+}
+
+/**
+ * Key values a group's instances may not use: the declared reservedKeys
+ * plus the static entries of every keyed $each over the group, which an
+ * instance with the same key would collide with.
+ */
+function getReservedGroupKeys(
+	harness: HarnessConfig,
+	slotId: string,
+): string[] {
+	const slotDef = harness.slots[slotId];
+	if (slotDef?.type !== "group" || slotDef.key === undefined) return [];
+
+	const pointer = `#/slots/${slotId}`;
+	const staticKeys = [
+		...harness.templates.map((template) => template.template),
+		...Object.values(harness.templateFragments ?? {}),
+	]
+		.flatMap(getEachStaticKeys)
+		.filter(({ each }) => each === pointer)
+		.flatMap(({ keys }) => keys);
+	return [...new Set([...(slotDef.reservedKeys ?? []), ...staticKeys])];
+}
+
+/**
+ * Add each group's reserved keys to its definition, so slot validation
+ * (wizard and API) rejects instance names that generation would reject.
+ */
+function withReservedGroupKeys(harness: HarnessConfig): HarnessConfig {
+	const slots = Object.fromEntries(
+		Object.entries(harness.slots).map(([slotId, slotDef]) => {
+			const reservedKeys = getReservedGroupKeys(harness, slotId);
+			return [
+				slotId,
+				slotDef.type === "group" && reservedKeys.length > 0
+					? { ...slotDef, reservedKeys }
+					: slotDef,
+			];
+		}),
+	);
+	return { ...harness, slots };
+}
+
+/**
+ * Check default group instances against reserved keys, which parsing
+ * cannot do before the templates are known.
+ */
+function validateGroupDefaultKeys(harness: HarnessConfig): void {
+	for (const [slotId, slotDef] of Object.entries(harness.slots)) {
+		if (slotDef.type !== "group") continue;
+		const groupDef = {
+			...slotDef,
+			reservedKeys: getReservedGroupKeys(harness, slotId),
+		};
+		slotDef.default.forEach((instance, index) => {
+			const error = getGroupInstanceError(groupDef, instance);
+			if (error) {
+				throw new HarnessValidationError(
+					`/slots/${slotId}/default/${index}`,
+					`Default item is invalid: ${error}`,
+					slotId,
+				);
+			}
+		});
+	}
+}
+
+/**
+ * Check text slot defaults (including group text fields) against their
+ * length, pattern and format constraints.
+ */
+function validateTextDefaults(harness: HarnessConfig): void {
+	for (const [slotId, slotDef] of Object.entries(harness.slots)) {
+		const definitions: [string, SlotDefinition][] =
+			slotDef.type === "group"
+				? Object.entries(slotDef.fields).map(([fieldId, fieldDef]) => [
+						`/slots/${slotId}/fields/${fieldId}`,
+						fieldDef,
+					])
+				: [[`/slots/${slotId}`, slotDef]];
+
+		for (const [path, definition] of definitions) {
+			if (definition.type !== "text" || definition.default === undefined) {
+				continue;
+			}
+			const error = getTextError(definition, definition.default);
+			if (error) {
+				throw new HarnessValidationError(
+					`${path}/default`,
+					`Default "${definition.default}" is invalid: ${error}`,
+					slotId,
+				);
+			}
+		}
+	}
+}
+
+/**
+ * Validate output paths and install targets with the same traversal checks
+ * used during generation. Unconditional outputs must not share a target.
+ */
+function validateOutputTargets(harness: HarnessConfig): void {
+	const unconditionalTargets = new Map<string, string>();
+	harness.outputs.forEach((output, i) => {
+		const field = output.target === undefined ? "path" : "target";
+		let target: string;
+		try {
+			normalizeOutputPath(output.path);
+			target = normalizeOutputPath(output.target ?? output.path);
+		} catch (error) {
+			throw new HarnessValidationError(
+				`/outputs/${i}/${field}`,
+				`Invalid output "${output.path}": ${error instanceof Error ? error.message : String(error)}`,
+			);
+		}
+
+		if (output.emitWhen) return;
+		const existing = unconditionalTargets.get(target);
+		if (existing !== undefined) {
+			throw new HarnessValidationError(
+				`/outputs/${i}/${field}`,
+				`Outputs "${existing}" and "${output.path}" both install to "${target}"`,
+			);
+		}
+		unconditionalTargets.set(target, output.path);
+	});
+}
+
+/**
+ * Statically analyze templates and template fragments without resolving
+ * them. Errors: refs to unknown slots, group fields, meta keys or
+ * fragments, and outputs no template renders. Warnings: slots nothing
+ * reads, and slots templates read that no flow page shows.
+ *
+ * @param flowSlotIds - Slot IDs shown on any flow page
+ */
+function analyzeHarness(
+	harness: HarnessConfig,
+	flowSlotIds: Set<string>,
+): HarnessValidationError[] {
+	const findings: HarnessValidationError[] = [];
+	const templateSlotIds = new Set<string>();
+
+	const templateOutputs = new Set(harness.templates.map((t) => t.output));
+	harness.outputs.forEach((output, i) => {
+		if (!templateOutputs.has(output.path)) {
+			findings.push(
+				new HarnessValidationError(
+					`/outputs/${i}`,
+					`Output "${output.path}" has no template`,
+				),
+			);
+		}
+	});
+
+	const checkPointers = (template: unknown, basePath: string) => {
+		for (const { path, pointer, each } of getTemplatePointers(template)) {
+			const location = `${basePath}${path}`;
+			const report = (message: string, slotId?: string) =>
+				findings.push(new HarnessValidationError(location, message, slotId));
+			let parsed: ParsedPointer;
 			try {
-				resolveRefs(templateClone, context);
+				parsed = parseJsonPointer(pointer);
 			} catch (error) {
-				throw new HarnessValidationError(
-					`/templates/${i}`,
-					`Template "${template.output}" fails with default values: ${String(error instanceof Error ? error.message : error)}. ` +
-						`Ensure all slots referenced in templates have defaults or are visible to users.`,
+				report(error instanceof Error ? error.message : String(error));
+				continue;
+			}
+
+			switch (parsed.root) {
+				case "slots":
+					if (!(parsed.id in harness.slots)) {
+						report(`Unknown slot ID in template: ${parsed.id}`, parsed.id);
+					} else {
+						templateSlotIds.add(parsed.id);
+					}
+					break;
+				case "item": {
+					// Only fields of a group iterated directly can be checked
+					const source = each ? tryParsePointer(each) : undefined;
+					const group =
+						source?.root === "slots" && source.segments.length === 0
+							? harness.slots[source.id]
+							: undefined;
+					if (group?.type === "group" && !(parsed.id in group.fields)) {
+						report(
+							`Unknown field "${parsed.id}" in "${each}" (fields: ${Object.keys(group.fields).join(", ")})`,
+							source?.id,
+						);
+					}
+					break;
+				}
+				case "meta":
+					if (!META_KEYS.some((key) => key === parsed.id)) {
+						report(
+							`Unknown meta key in template: ${parsed.id} (use ${META_KEYS.join(", ")})`,
+						);
+					}
+					break;
+				case "fragments":
+					if (!Object.hasOwn(harness.templateFragments ?? {}, parsed.id)) {
+						report(`Unknown template fragment: ${parsed.id}`);
+					}
+					break;
+			}
+		}
+	};
+	harness.templates.forEach((template, i) => {
+		checkPointers(template.template, `/templates/${i}/template`);
+	});
+	for (const [name, fragment] of Object.entries(
+		harness.templateFragments ?? {},
+	)) {
+		checkPointers(fragment, `/templateFragments/${name}`);
+	}
+
+	// Slots read by conditions or derived defaults are used, too
+	const logicSlotIds = new Set([
+		...collectHarnessConditions(harness).flatMap(getConditionSlotIds),
+		...Object.values(harness.slots).flatMap((slotDef) =>
+			slotDef.defaultFrom ? [slotDef.defaultFrom] : [],
+		),
+	]);
+	for (const slotId of Object.keys(harness.slots)) {
+		if (!templateSlotIds.has(slotId) && !logicSlotIds.has(slotId)) {
+			findings.push(
+				new HarnessValidationError(
+					`/slots/${slotId}`,
+					`Slot "${slotId}" is not read by any template, condition or defaultFrom`,
+					slotId,
 					undefined,
+					"warning",
+				),
+			);
+		} else if (templateSlotIds.has(slotId) && !flowSlotIds.has(slotId)) {
+			findings.push(
+				new HarnessValidationError(
+					`/slots/${slotId}`,
+					`Slot "${slotId}" is read by a template but not shown on any flow page, so it always uses its default`,
+					slotId,
 					undefined,
-				);
-			}
+					"warning",
+				),
+			);
 		}
-	} catch (error) {
-		if (error instanceof HarnessValidationError) {
-			throw error;
+	}
+
+	return findings;
+}
+
+function tryParsePointer(pointer: string): ParsedPointer | undefined {
+	try {
+		return parseJsonPointer(pointer);
+	} catch {
+		return undefined;
+	}
+}
+
+const MAX_DRY_RUN_SCENARIOS = 256;
+
+/**
+ * Collect every condition that can change what a submission emits.
+ */
+function collectHarnessConditions(harness: HarnessConfig): SlotCondition[] {
+	const visibilityConditions = [
+		...Object.values(harness.slots),
+		...harness.flow,
+	].flatMap((entry) => (entry.visibleWhen ? [entry.visibleWhen] : []));
+	const outputConditions = harness.outputs.flatMap((output) =>
+		output.emitWhen ? [output.emitWhen] : [],
+	);
+	const templateConditions = [
+		...harness.templates.map((template) => template.template),
+		...Object.values(harness.templateFragments ?? {}),
+	].flatMap((template) =>
+		getTemplateConditions(template).map(({ condition }) => condition),
+	);
+	return [...visibilityConditions, ...outputConditions, ...templateConditions];
+}
+
+/**
+ * Candidate user values for a slot read by a condition.
+ * `undefined` stands for "untouched" (the default applies).
+ */
+function getBranchCandidates(
+	slotDef: SlotDefinition,
+	literals: ConditionValue[],
+): unknown[] {
+	const candidates: unknown[] = [undefined, ...literals];
+	switch (slotDef.type) {
+		case "boolean":
+			candidates.push(true, false);
+			break;
+		case "enum":
+			candidates.push(...slotDef.options);
+			break;
+		case "multiEnum":
+			candidates.push([], [slotDef.options[0]]);
+			break;
+		case "number":
+			candidates.push(slotDef.min, slotDef.max);
+			break;
+		case "model":
+			candidates.push("dry-run/model");
+			break;
+		case "text":
+			candidates.push("dry-run");
+			break;
+		case "envRef":
+			candidates.push("DRY_RUN");
+			break;
+		case "list":
+			candidates.push([], [getSampleListItem(slotDef.item)]);
+			break;
+		case "group":
+			candidates.push([], [getSampleGroupInstance(slotDef)]);
+			break;
+	}
+	return [...new Set(candidates)];
+}
+
+function getSampleListItem(item: ListItemDefinition): string | number {
+	switch (item.type) {
+		case "text":
+			return "dry-run";
+		case "number":
+			return item.min ?? item.max ?? 0;
+		case "enum":
+			return item.options[0];
+	}
+}
+
+/**
+ * Sample values for model slots the wizard requires (no default and no
+ * defaultFrom), so templates can embed them in strings during the dry run.
+ */
+function getRequiredModelSamples(
+	harness: HarnessConfig,
+): Record<string, unknown> {
+	const samples: Record<string, unknown> = {};
+	for (const [slotId, slotDef] of Object.entries(harness.slots)) {
+		if (
+			slotDef.type === "model" &&
+			slotDef.default === undefined &&
+			!slotDef.defaultFrom
+		) {
+			samples[slotId] = "dry-run/model";
 		}
-		throw new HarnessValidationError(
-			"/templates",
-			`Dry run validation failed: ${String(error instanceof Error ? error.message : error)}`,
-			undefined,
-			undefined,
+	}
+	return samples;
+}
+
+/**
+ * A group instance that satisfies every field, so `$each` templates
+ * are exercised even when the group defaults to no instances.
+ * With `requiredOnly`, optional fields are left unset instead.
+ */
+function getSampleGroupInstance(
+	slotDef: Extract<SlotDefinition, { type: "group" }>,
+	requiredOnly = false,
+): Record<string, unknown> {
+	const instance: Record<string, unknown> = {};
+	for (const [fieldId, fieldDef] of Object.entries(slotDef.fields)) {
+		// Same rule as getGroupFieldError: model fields and the key are required
+		if (requiredOnly && fieldDef.type !== "model" && fieldId !== slotDef.key) {
+			continue;
+		}
+		switch (fieldDef.type) {
+			case "model":
+				instance[fieldId] = fieldDef.default ?? "dry-run/model";
+				break;
+			case "number":
+				instance[fieldId] =
+					fieldDef.default ?? fieldDef.min ?? fieldDef.max ?? 0;
+				break;
+			case "enum":
+				instance[fieldId] = fieldDef.default ?? fieldDef.options[0];
+				break;
+			case "boolean":
+				instance[fieldId] = fieldDef.default ?? false;
+				break;
+			case "text":
+				instance[fieldId] = fieldDef.default || "dry-run";
+				break;
+		}
+	}
+	return instance;
+}
+
+/**
+ * Build one set of user values per combination of condition branches.
+ * The first scenario is always the untouched submit (all defaults), and
+ * two final scenarios fill every group with one sample instance: one with
+ * every field set, one with only the required fields.
+ */
+function getDryRunScenarios(harness: HarnessConfig): Record<string, unknown>[] {
+	const literals = new Map<string, ConditionValue[]>();
+	for (const condition of collectHarnessConditions(harness)) {
+		getConditionLiterals(condition, literals);
+	}
+
+	let scenarios: Record<string, unknown>[] = [{}];
+	for (const [slotId, values] of literals) {
+		const slotDef = harness.slots[slotId];
+		if (!slotDef) continue;
+
+		const candidates = getBranchCandidates(slotDef, values);
+		scenarios = scenarios.flatMap((scenario) =>
+			candidates.map((value) =>
+				value === undefined ? scenario : { ...scenario, [slotId]: value },
+			),
 		);
+
+		if (scenarios.length > MAX_DRY_RUN_SCENARIOS) {
+			throw new HarnessValidationError(
+				"/slots",
+				`Too many condition branches to dry-run (more than ${MAX_DRY_RUN_SCENARIOS}). Reduce the number of slots used in conditions.`,
+				slotId,
+			);
+		}
 	}
+
+	for (const requiredOnly of [false, true]) {
+		const groupScenario: Record<string, unknown> = {};
+		for (const [slotId, slotDef] of Object.entries(harness.slots)) {
+			if (slotDef.type === "group") {
+				groupScenario[slotId] = [getSampleGroupInstance(slotDef, requiredOnly)];
+			}
+		}
+		if (Object.keys(groupScenario).length > 0) {
+			scenarios.push(groupScenario);
+		}
+	}
+
+	return scenarios;
+}
+
+function describeScenario(scenario: Record<string, unknown>): string {
+	const entries = Object.entries(scenario);
+	if (entries.length === 0) return "default values";
+	const values = entries
+		.map(([slotId, value]) => `${slotId}=${JSON.stringify(value)}`)
+		.join(", ");
+	return `default values and ${values}`;
 }
 
 // ============================================================================
@@ -294,11 +1418,14 @@ export function validateHarness(harness: HarnessConfig): void {
 
 /**
  * Parse and validate a harness config.
+ * Resolves its `extends` chain against `rawHarnesses` (raw JSON by harness ID)
+ * so the result is the flattened config.
  * Throws with descriptive error if invalid.
  */
 export function parseHarnessConfig(
 	raw: unknown,
 	filename: string,
+	rawHarnesses: Record<string, unknown> = {},
 ): HarnessConfig {
 	// Guard clause: ensure we have raw data (Early Exit)
 	if (!raw) {
@@ -319,20 +1446,44 @@ export function parseHarnessConfig(
 		);
 	}
 
+	// Issues inside slots built from a fragment name both the fragment and the slot
+	let fragmentUsages: FragmentUsage[] = [];
 	try {
-		// Parse at boundary (Parse Don't Validate)
-		const parsed = HarnessConfigSchemaBase.parse(raw);
-
-		// Derive and inject the id
+		// Derive the id, then flatten inherited entries before parsing
 		const id = deriveHarnessId(filename);
+		const flattened = resolveHarnessExtends(raw, id, rawHarnesses);
+
+		// Expand shared slot fragments ({ "use": "<fragment>" })
+		const expansion = expandSlotFragments(flattened);
+		fragmentUsages = expansion.usages;
+		if (expansion.issues.length > 0) {
+			throw new z.ZodError(
+				expansion.issues.map((issue) => ({
+					code: "custom" as const,
+					path: issue.path,
+					message: issue.message,
+					input: flattened,
+				})),
+			);
+		}
+
+		// Parse at boundary (Parse Don't Validate)
+		const parsed = HarnessConfigSchemaBase.parse(expansion.expanded);
 
-		return { ...parsed, id };
+		return withReservedGroupKeys({ ...parsed, id });
 	} catch (error) {
+		// Inheritance conflicts are reported as-is, one issue per conflict
+		if (error instanceof HarnessExtendsError) {
+			throw error;
+		}
 		// Fail fast with descriptive error (Fail Fast, Fail Loud)
 		const prefix = filename ? `[${filename}] ` : "";
 		if (error instanceof z.ZodError) {
 			const issues = error.issues
-				.map((i) => `  - ${i.path.join(".")}: ${i.message}`)
+				.map(
+					(i) =>
+						`  - ${i.path.join(".")}: ${i.message}${describeFragmentUsage(fragmentUsages, i.path)}`,
+				)
 				.join("\n");
 			throw new Error(`${prefix}Invalid harness config:\n${issues}`);
 		}
@@ -1,6 +1,8 @@
 // Mock provider and model catalog for Phase 1
 // This will be replaced with /api/providers in Phase 2
 
+import type { ModelCapabilities } from "~/lib/api/types";
+
 export type AuthBadge = "api-key" | "oauth" | "aws-creds" | "local" | "gateway";
 
 export interface Provider {
@@ -16,6 +18,7 @@ export interface Model {
 	id: string;
 	name: string;
 	description?: string;
+	capabilities?: ModelCapabilities;
 }
 
 // Mock providers with variety of auth types
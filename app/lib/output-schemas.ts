@@ -0,0 +1,71 @@
+/**
+ * Output Schemas
+ *
+ * JSON Schemas of the files harnesses generate live in
+ * app/config/output-schemas/. A harness output references one by name, and
+ * its generated content is checked against it:
+ *
+ *   Output: { "path": "opencode.jsonc", "label": "OpenCode", "schema": "opencode" }
+ *
+ * The dry run in validateHarness checks every scenario, so a value the target
+ * rejects (e.g. "reasoningEffort": "maximum") fails `bun run harness:validate`.
+ * The schemas are hand-written subsets of the upstream ones: they check the
+ * keys they list and allow any other key.
+ */
+
+import { z } from "zod";
+import ohMyOpenCodeSchema from "../config/output-schemas/oh-my-opencode.json";
+import openCodeSchema from "../config/output-schemas/opencode.json";
+import { parseJsonc } from "./api/jsonc.js";
+
+export const OUTPUT_SCHEMAS_DIR = "app/config/output-schemas";
+
+export const OUTPUT_SCHEMA_NAMES = ["opencode", "oh-my-opencode"] as const;
+
+export type OutputSchemaName = (typeof OUTPUT_SCHEMA_NAMES)[number];
+
+type JSONSchema = z.core.JSONSchema.JSONSchema;
+
+export const OUTPUT_SCHEMAS: Record<OutputSchemaName, JSONSchema> = {
+	opencode: openCodeSchema as JSONSchema,
+	"oh-my-opencode": ohMyOpenCodeSchema as JSONSchema,
+};
+
+// Converted lazily: most requests never validate against a schema
+const compiledSchemas = new Map<OutputSchemaName, z.ZodType>();
+
+function getCompiledSchema(name: OutputSchemaName): z.ZodType {
+	let schema = compiledSchemas.get(name);
+	if (!schema) {
+		schema = z.fromJSONSchema(OUTPUT_SCHEMAS[name]);
+		compiledSchemas.set(name, schema);
+	}
+	return schema;
+}
+
+/**
+ * Check generated JSON or JSONC content against an output schema.
+ *
+ * @param name - Output schema name
+ * @param content - Generated file content
+ * @returns Issues as "path: message" strings (empty if the content conforms)
+ */
+export function getOutputSchemaIssues(
+	name: OutputSchemaName,
+	content: string,
+): string[] {
+	let value: unknown;
+	try {
+		value = parseJsonc(content);
+	} catch (error) {
+		return [
+			`(root): not valid JSON: ${error instanceof Error ? error.message : String(error)}`,
+		];
+	}
+
+	const result = getCompiledSchema(name).safeParse(value);
+	if (result.success) return [];
+	return result.error.issues.map(
+		(issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`,
+	);
+}
@@ -0,0 +1,210 @@
+import { describe, expect, it } from "vitest";
+import { getSubmissionWithDefaults } from "./api/ref-resolver";
+import {
+	evaluateCondition,
+	getActivePages,
+	getHiddenSlotIds,
+	getInactivePageIds,
+	SlotConditionSchema,
+} from "./slot-conditions";
+import { createTestHarness } from "./test-harness";
+
+describe("evaluateCondition", () => {
+	const values = { mode: "fast", debug: false, tags: [], name: "x" };
+
+	it("compares a slot with equals, notEquals and in", () => {
+		expect(evaluateCondition({ slot: "mode", equals: "fast" }, values)).toBe(
+			true,
+		);
+		expect(evaluateCondition({ slot: "mode", notEquals: "fast" }, values)).toBe(
+			false,
+		);
+		expect(
+			evaluateCondition({ slot: "mode", in: ["auto", "fast"] }, values),
+		).toBe(true);
+		expect(evaluateCondition({ slot: "missing", equals: null }, values)).toBe(
+			false,
+		);
+	});
+
+	it("treats empty strings and arrays as falsy", () => {
+		expect(evaluateCondition({ slot: "name" }, values)).toBe(true);
+		expect(evaluateCondition({ slot: "tags" }, values)).toBe(false);
+		expect(evaluateCondition({ slot: "debug", truthy: false }, values)).toBe(
+			true,
+		);
+		expect(evaluateCondition({ slot: "missing" }, values)).toBe(false);
+	});
+
+	it("combines conditions with all, any and not", () => {
+		const fast = { slot: "mode", equals: "fast" };
+		const debug = { slot: "debug" };
+		expect(evaluateCondition({ all: [fast, debug] }, values)).toBe(false);
+		expect(evaluateCondition({ any: [fast, debug] }, values)).toBe(true);
+		expect(evaluateCondition({ not: debug }, values)).toBe(true);
+	});
+});
+
+describe("SlotConditionSchema", () => {
+	it("accepts at most one operator per slot test", () => {
+		expect(
+			SlotConditionSchema.safeParse({ slot: "mode", equals: "fast" }).success,
+		).toBe(true);
+		expect(
+			SlotConditionSchema.safeParse({
+				slot: "mode",
+				equals: "fast",
+				notEquals: "auto",
+			}).success,
+		).toBe(false);
+	});
+
+	it("rejects unknown keys and empty combinators", () => {
+		expect(
+			SlotConditionSchema.safeParse({ slot: "mode", equal: "fast" }).success,
+		).toBe(false);
+		expect(SlotConditionSchema.safeParse({ all: [] }).success).toBe(false);
+	});
+});
+
+describe("getHiddenSlotIds", () => {
+	const harness = createTestHarness({
+		slots: {
+			enable_reasoning: { type: "boolean", label: "Reasoning", default: false },
+			effort: {
+				type: "enum",
+				label: "Effort",
+				options: ["low", "high"],
+				default: "low",
+				visibleWhen: { slot: "enable_reasoning", equals: true },
+			},
+			budget: {
+				type: "number",
+				label: "Budget",
+				visibleWhen: { slot: "effort", equals: "high" },
+			},
+		},
+	});
+
+	it("hides slots whose condition fails on effective values", () => {
+		expect([...getHiddenSlotIds(harness, {})]).toEqual(["effort", "budget"]);
+		expect([...getHiddenSlotIds(harness, { enable_reasoning: true })]).toEqual([
+			"budget",
+		]);
+		expect(
+			getHiddenSlotIds(harness, { enable_reasoning: true, effort: "high" })
+				.size,
+		).toBe(0);
+	});
+
+	it("hides slots that depend on a hidden slot", () => {
+		expect(getHiddenSlotIds(harness, { effort: "high" }).has("budget")).toBe(
+			true,
+		);
+	});
+});
+
+describe("page conditions", () => {
+	const harness = createTestHarness({
+		slots: {
+			experimental: { type: "boolean", label: "Experimental", default: false },
+			beta_model: { type: "model", label: "Beta Model" },
+			shared: { type: "text", label: "Shared" },
+		},
+		flow: [
+			{
+				id: "basics",
+				label: "Basics",
+				sections: [{ id: "main", label: "Main", slots: ["experimental"] }],
+			},
+			{
+				id: "beta",
+				label: "Beta",
+				visibleWhen: { slot: "experimental", equals: true },
+				sections: [
+					{ id: "beta", label: "Beta", slots: ["beta_model", "shared"] },
+				],
+			},
+			{
+				id: "extras",
+				label: "Extras",
+				sections: [{ id: "extras", label: "Extras", slots: ["shared"] }],
+			},
+		],
+	});
+
+	it("skips pages whose condition fails", () => {
+		expect([...getInactivePageIds(harness, {})]).toEqual(["beta"]);
+		expect(getActivePages(harness, {}).map((page) => page.id)).toEqual([
+			"basics",
+			"extras",
+		]);
+		expect(getActivePages(harness, { experimental: true })).toHaveLength(3);
+	});
+
+	it("hides slots shown only on inactive pages", () => {
+		const hidden = getHiddenSlotIds(harness, {});
+		expect(hidden.has("beta_model")).toBe(true);
+		expect(hidden.has("shared")).toBe(false);
+		expect(getHiddenSlotIds(harness, { experimental: true }).size).toBe(0);
+	});
+});
+
+describe("getHiddenSlotIds with defaultFrom", () => {
+	const harness = createTestHarness({
+		slots: {
+			enable_reasoning: { type: "boolean", label: "Reasoning", default: false },
+			plan_reasoning: {
+				type: "boolean",
+				label: "Plan Reasoning",
+				defaultFrom: "enable_reasoning",
+			},
+			plan_effort: {
+				type: "enum",
+				label: "Plan Effort",
+				options: ["low", "high"],
+				default: "low",
+				visibleWhen: { slot: "plan_reasoning", equals: true },
+			},
+		},
+	});
+
+	it("reads the value inherited from the source slot", () => {
+		expect(getHiddenSlotIds(harness, {}).has("plan_effort")).toBe(true);
+		expect(
+			getHiddenSlotIds(harness, { enable_reasoning: true }).has("plan_effort"),
+		).toBe(false);
+		expect(
+			getHiddenSlotIds(harness, {
+				enable_reasoning: true,
+				plan_reasoning: false,
+			}).has("plan_effort"),
+		).toBe(true);
+	});
+
+	it("agrees with the values getSubmissionWithDefaults emits", () => {
+		expect(
+			getSubmissionWithDefaults(harness, { enable_reasoning: true }),
+		).toMatchObject({ plan_reasoning: true, plan_effort: "low" });
+		expect(getSubmissionWithDefaults(harness, {}).plan_effort).toBeUndefined();
+	});
+
+	it("treats a hidden source as unset", () => {
+		const hiddenSource = createTestHarness({
+			slots: {
+				...harness.slots,
+				advanced: { type: "boolean", label: "Advanced", default: false },
+				enable_reasoning: {
+					type: "boolean",
+					label: "Reasoning",
+					default: true,
+					visibleWhen: { slot: "advanced" },
+				},
+			},
+		});
+		expect(getHiddenSlotIds(hiddenSource, {}).has("plan_effort")).toBe(true);
+		expect(
+			getHiddenSlotIds(hiddenSource, { advanced: true }).has("plan_effort"),
+		).toBe(false);
+	});
+});
@@ -0,0 +1,332 @@
+import { z } from "zod";
+import type { HarnessConfig } from "./harness-schema.js";
+
+// ============================================================================
+// Condition Schema
+// ============================================================================
+
+export type ConditionValue = string | number | boolean | null;
+
+/**
+ * Declarative condition on slot values.
+ *
+ * Slot tests compare a single slot value; a test without an operator
+ * checks truthiness. `all`/`any`/`not` combine tests.
+ *
+ * Example:
+ *   { "slot": "enable_reasoning", "equals": true }
+ *   { "any": [{ "slot": "mode", "in": ["fast", "auto"] }, { "slot": "debug" }] }
+ */
+export type SlotCondition =
+	| {
+			slot: string;
+			equals?: ConditionValue;
+			notEquals?: ConditionValue;
+			in?: ConditionValue[];
+			truthy?: boolean;
+	  }
+	| { all: SlotCondition[] }
+	| { any: SlotCondition[] }
+	| { not: SlotCondition };
+
+const ConditionValueSchema = z.union([
+	z.string(),
+	z.number(),
+	z.boolean(),
+	z.null(),
+]);
+
+const SLOT_TEST_OPERATORS = ["equals", "notEquals", "in", "truthy"] as const;
+
+const SlotTestSchema = z
+	.object({
+		slot: z.string().min(1),
+		equals: ConditionValueSchema.optional(),
+		notEquals: ConditionValueSchema.optional(),
+		in: z.array(ConditionValueSchema).min(1).optional(),
+		truthy: z.boolean().optional(),
+	})
+	.strict()
+	.refine(
+		(test) => SLOT_TEST_OPERATORS.filter((op) => op in test).length <= 1,
+		{
+			message: `Slot conditions accept at most one of: ${SLOT_TEST_OPERATORS.join(", ")}`,
+		},
+	);
+
+export const SlotConditionSchema: z.ZodType<SlotCondition> = z.lazy(() =>
+	z.union([
+		SlotTestSchema,
+		z.object({ all: z.array(SlotConditionSchema).min(1) }).strict(),
+		z.object({ any: z.array(SlotConditionSchema).min(1) }).strict(),
+		z.object({ not: SlotConditionSchema }).strict(),
+	]),
+);
+
+// ============================================================================
+// Evaluation
+// ============================================================================
+
+/**
+ * Truthiness used by conditions.
+ * Empty strings and empty arrays count as unset.
+ */
+export function isTruthySlotValue(value: unknown): boolean {
+	if (Array.isArray(value)) return value.length > 0;
+	return Boolean(value);
+}
+
+/**
+ * Evaluate a condition against slot values.
+ * Missing slots evaluate as `undefined`.
+ */
+export function evaluateCondition(
+	condition: SlotCondition,
+	slotValues: Record<string, unknown>,
+): boolean {
+	if ("all" in condition) {
+		return condition.all.every((c) => evaluateCondition(c, slotValues));
+	}
+	if ("any" in condition) {
+		return condition.any.some((c) => evaluateCondition(c, slotValues));
+	}
+	if ("not" in condition) {
+		return !evaluateCondition(condition.not, slotValues);
+	}
+
+	const value = slotValues[condition.slot];
+
+	if (condition.equals !== undefined) {
+		return value === condition.equals;
+	}
+	if (condition.notEquals !== undefined) {
+		return value !== condition.notEquals;
+	}
+	if (condition.in !== undefined) {
+		return condition.in.some((candidate) => candidate === value);
+	}
+
+	const expected = condition.truthy ?? true;
+	return isTruthySlotValue(value) === expected;
+}
+
+/**
+ * Collect every slot ID a condition reads.
+ */
+export function getConditionSlotIds(condition: SlotCondition): string[] {
+	if ("all" in condition) return condition.all.flatMap(getConditionSlotIds);
+	if ("any" in condition) return condition.any.flatMap(getConditionSlotIds);
+	if ("not" in condition) return getConditionSlotIds(condition.not);
+	return [condition.slot];
+}
+
+/**
+ * Collect the literal values a condition compares each slot against.
+ * Used by dry runs to exercise every branch.
+ */
+export function getConditionLiterals(
+	condition: SlotCondition,
+	literals: Map<string, ConditionValue[]> = new Map(),
+): Map<string, ConditionValue[]> {
+	if ("all" in condition || "any" in condition) {
+		const children = "all" in condition ? condition.all : condition.any;
+		for (const child of children) getConditionLiterals(child, literals);
+		return literals;
+	}
+	if ("not" in condition) {
+		return getConditionLiterals(condition.not, literals);
+	}
+
+	const values = literals.get(condition.slot) ?? [];
+	if (condition.equals !== undefined) values.push(condition.equals);
+	if (condition.notEquals !== undefined) values.push(condition.notEquals);
+	if (condition.in !== undefined) values.push(...condition.in);
+	literals.set(condition.slot, values);
+	return literals;
+}
+
+// ============================================================================
+// Slot and Page Visibility
+// ============================================================================
+
+type VisibilityHarness = Pick<HarnessConfig, "slots" | "flow">;
+
+/**
+ * Slots a slot's visibility depends on: the slots read by its own
+ * `visibleWhen` and by the `visibleWhen` of every page that shows it,
+ * plus the `defaultFrom` sources those slots inherit from.
+ */
+export function getSlotVisibilityDependencies(
+	harness: VisibilityHarness,
+	slotId: string,
+): string[] {
+	const read: string[] = [];
+	const condition = harness.slots[slotId]?.visibleWhen;
+	if (condition) read.push(...getConditionSlotIds(condition));
+
+	for (const page of getPagesShowingSlot(harness, slotId)) {
+		if (page.visibleWhen) {
+			read.push(...getConditionSlotIds(page.visibleWhen));
+		}
+	}
+
+	const dependencies = new Set<string>();
+	for (const id of read) {
+		// Follow inheritance chains (cycles are rejected by validateHarness)
+		let current: string | undefined = id;
+		while (current !== undefined && !dependencies.has(current)) {
+			dependencies.add(current);
+			current = harness.slots[current]?.defaultFrom;
+		}
+	}
+	return [...dependencies];
+}
+
+function getPagesShowingSlot(harness: VisibilityHarness, slotId: string) {
+	return harness.flow.filter((page) =>
+		page.sections.some(
+			(section) =>
+				section.slots.includes(slotId) || section.advanced?.includes(slotId),
+		),
+	);
+}
+
+/**
+ * Resolve slot visibility and page activity together.
+ *
+ * Conditions see the effective value of the slots they read (user value,
+ * then the visible `defaultFrom` source's value, then default), the same
+ * value getSubmissionWithDefaults emits. A slot that is itself hidden reads
+ * as `undefined`, so hiding a toggle also hides everything that depends on
+ * it. A slot shown only on inactive pages is hidden as well.
+ */
+function computeVisibility(
+	harness: VisibilityHarness,
+	slotValues: Record<string, unknown>,
+): { hiddenSlotIds: Set<string>; inactivePageIds: Set<string> } {
+	const slotVisibility = new Map<string, boolean>();
+	const pageActivity = new Map<string, boolean>();
+
+	// Guard: nothing is conditional (Early Exit)
+	const hasConditions = [...Object.values(harness.slots), ...harness.flow].some(
+		(entry) => entry.visibleWhen,
+	);
+	if (!hasConditions) {
+		return { hiddenSlotIds: new Set(), inactivePageIds: new Set() };
+	}
+
+	const getEffectiveValue = (id: string, stack: string[]): unknown => {
+		if (!isSlotVisible(id, stack)) return undefined;
+		const slotDef = harness.slots[id];
+		const inherited = slotDef?.defaultFrom
+			? getEffectiveValue(slotDef.defaultFrom, stack)
+			: undefined;
+		return slotValues[id] ?? inherited ?? slotDef?.default;
+	};
+
+	const readSlots = (
+		condition: SlotCondition,
+		stack: string[],
+	): Record<string, unknown> => {
+		const values: Record<string, unknown> = {};
+		for (const id of getConditionSlotIds(condition)) {
+			values[id] = getEffectiveValue(id, stack);
+		}
+		return values;
+	};
+
+	const isPageActive = (
+		page: VisibilityHarness["flow"][number],
+		stack: string[],
+	): boolean => {
+		const cached = pageActivity.get(page.id);
+		if (cached !== undefined) return cached;
+		if (!page.visibleWhen) return true;
+
+		const active = evaluateCondition(
+			page.visibleWhen,
+			readSlots(page.visibleWhen, stack),
+		);
+		pageActivity.set(page.id, active);
+		return active;
+	};
+
+	const isSlotVisible = (slotId: string, stack: string[]): boolean => {
+		const cached = slotVisibility.get(slotId);
+		if (cached !== undefined) return cached;
+
+		// Fail fast: cycles are rejected by validateHarness
+		if (stack.includes(slotId)) {
+			throw new Error(
+				`Circular visibility conditions: ${[...stack, slotId].join(" → ")}`,
+			);
+		}
+		const nextStack = [...stack, slotId];
+
+		const pages = getPagesShowingSlot(harness, slotId);
+		const onActivePage =
+			pages.length === 0 || pages.some((page) => isPageActive(page, nextStack));
+
+		const condition = harness.slots[slotId]?.visibleWhen;
+		const visible =
+			onActivePage &&
+			(!condition ||
+				evaluateCondition(condition, readSlots(condition, nextStack)));
+
+		slotVisibility.set(slotId, visible);
+		return visible;
+	};
+
+	const hiddenSlotIds = new Set<string>();
+	for (const slotId of Object.keys(harness.slots)) {
+		if (!isSlotVisible(slotId, [])) hiddenSlotIds.add(slotId);
+	}
+
+	const inactivePageIds = new Set<string>();
+	for (const page of harness.flow) {
+		if (!isPageActive(page, [])) inactivePageIds.add(page.id);
+	}
+
+	return { hiddenSlotIds, inactivePageIds };
+}
+
+/**
+ * Compute which slots are hidden, either by their own `visibleWhen`
+ * condition or because every page showing them is inactive.
+ *
+ * @param harness - Harness config
+ * @param slotValues - User slot values (`defaultFrom` and defaults are applied for missing values)
+ * @returns Set of hidden slot IDs
+ */
+export function getHiddenSlotIds(
+	harness: VisibilityHarness,
+	slotValues: Record<string, unknown>,
+): Set<string> {
+	return computeVisibility(harness, slotValues).hiddenSlotIds;
+}
+
+/**
+ * Compute which flow pages are skipped because their `visibleWhen`
+ * condition is not met.
+ *
+ * @param harness - Harness config
+ * @param slotValues - User slot values (`defaultFrom` and defaults are applied for missing values)
+ * @returns Set of inactive page IDs
+ */
+export function getInactivePageIds(
+	harness: VisibilityHarness,
+	slotValues: Record<string, unknown>,
+): Set<string> {
+	return computeVisibility(harness, slotValues).inactivePageIds;
+}
+
+/**
+ * Get the flow pages that apply to the current slot values, in flow order.
+ */
+export function getActivePages<T extends VisibilityHarness>(
+	harness: T,
+	slotValues: Record<string, unknown>,
+): T["flow"] {
+	const inactivePageIds = getInactivePageIds(harness, slotValues);
+	return harness.flow.filter((page) => !inactivePageIds.has(page.id));
+}
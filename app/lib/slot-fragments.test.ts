@@ -0,0 +1,113 @@
+import { describe, expect, it } from "vitest";
+import { describeFragmentUsage, expandSlotFragments } from "./slot-fragments";
+
+const fragments = {
+	temperature: { type: "number", label: "Temperature", min: 0, max: 2 },
+	model: { type: "model", label: "Model" },
+};
+
+describe("expandSlotFragments", () => {
+	it("merges the fragment under the slot's own keys", () => {
+		const { expanded, usages, issues } = expandSlotFragments(
+			{
+				name: "Test",
+				slots: {
+					coder_temperature: { use: "temperature", default: 0.2 },
+					plain: { type: "boolean", label: "Plain" },
+				},
+			},
+			fragments,
+		);
+
+		expect(expanded).toEqual({
+			name: "Test",
+			slots: {
+				coder_temperature: {
+					type: "number",
+					label: "Temperature",
+					min: 0,
+					max: 2,
+					default: 0.2,
+				},
+				plain: { type: "boolean", label: "Plain" },
+			},
+		});
+		expect(usages).toEqual([
+			{ path: ["slots", "coder_temperature"], fragment: "temperature" },
+		]);
+		expect(issues).toEqual([]);
+	});
+
+	it("expands group fields", () => {
+		const { expanded, usages } = expandSlotFragments(
+			{
+				slots: {
+					agents: {
+						type: "group",
+						fields: { model: { use: "model", label: "Agent Model" } },
+					},
+				},
+			},
+			fragments,
+		);
+
+		expect(expanded).toEqual({
+			slots: {
+				agents: {
+					type: "group",
+					fields: { model: { type: "model", label: "Agent Model" } },
+				},
+			},
+		});
+		expect(usages).toEqual([
+			{ path: ["slots", "agents", "fields", "model"], fragment: "model" },
+		]);
+	});
+
+	it("reports unknown fragments, including Object.prototype names", () => {
+		const { expanded, issues } = expandSlotFragments(
+			{
+				slots: {
+					a: { use: "nope", label: "A" },
+					b: { use: "constructor" },
+				},
+			},
+			fragments,
+		);
+
+		expect(expanded).toEqual({ slots: { a: { label: "A" }, b: {} } });
+		expect(issues).toEqual([
+			{
+				path: ["slots", "a", "use"],
+				message: 'Unknown slot fragment "nope" (available: temperature, model)',
+			},
+			{
+				path: ["slots", "b", "use"],
+				message:
+					'Unknown slot fragment "constructor" (available: temperature, model)',
+			},
+		]);
+	});
+});
+
+describe("describeFragmentUsage", () => {
+	const usages = [
+		{ path: ["slots", "agents"], fragment: "agents" },
+		{ path: ["slots", "agents", "fields", "model"], fragment: "model" },
+	];
+
+	it("names the innermost fragment containing the issue", () => {
+		expect(
+			describeFragmentUsage(usages, ["slots", "agents", "fields", "model"]),
+		).toBe(
+			' [from fragment "model" in app/config/slot-fragments.json, used at slots.agents.fields.model]',
+		);
+		expect(describeFragmentUsage(usages, ["slots", "agents", "min"])).toBe(
+			' [from fragment "agents" in app/config/slot-fragments.json, used at slots.agents]',
+		);
+	});
+
+	it("is empty outside fragment usages", () => {
+		expect(describeFragmentUsage(usages, ["slots", "other"])).toBe("");
+	});
+});
@@ -0,0 +1,112 @@
+/**
+ * Slot Fragments
+ *
+ * Shared slot shapes live in app/config/slot-fragments.json. A harness slot
+ * (or group field) references one with "use" and may add or override keys:
+ *
+ *   Usage: { "use": "temperature", "default": 0.2 }
+ *   Fragment: { "type": "number", "label": "Temperature", "min": 0, "max": 2 }
+ *   Result: { "type": "number", "label": "Temperature", "min": 0, "max": 2, "default": 0.2 }
+ *
+ * Fragments are expanded on the raw JSON before schema parsing, and each
+ * usage is recorded so parse errors can name both the fragment and the slot.
+ */
+
+import fragmentLibrary from "../config/slot-fragments.json";
+
+export const SLOT_FRAGMENTS_FILE = "app/config/slot-fragments.json";
+
+export const SLOT_FRAGMENTS: Record<
+	string,
+	Record<string, unknown>
+> = fragmentLibrary;
+
+type RawObject = Record<string, unknown>;
+
+/**
+ * Where a fragment was used, as a parse-issue path prefix.
+ */
+export interface FragmentUsage {
+	path: string[]; // e.g. ["slots", "coder_temperature"]
+	fragment: string;
+}
+
+export interface FragmentExpansion {
+	expanded: unknown;
+	usages: FragmentUsage[];
+	issues: { path: string[]; message: string }[];
+}
+
+function isObject(value: unknown): value is RawObject {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Expand "use" references in a raw harness's slots and group fields.
+ *
+ * @param raw - Raw harness JSON (after `extends` is flattened)
+ * @param fragments - Fragment library by name
+ * @returns Expanded JSON, the usages found, and any unknown-fragment issues
+ */
+export function expandSlotFragments(
+	raw: unknown,
+	fragments: Record<string, Record<string, unknown>> = SLOT_FRAGMENTS,
+): FragmentExpansion {
+	const usages: FragmentUsage[] = [];
+	const issues: FragmentExpansion["issues"] = [];
+	if (!isObject(raw) || !isObject(raw.slots)) {
+		return { expanded: raw, usages, issues };
+	}
+
+	const expandEntry = (entry: unknown, path: string[]): unknown => {
+		if (!isObject(entry) || !("use" in entry)) return entry;
+
+		const { use, ...overrides } = entry;
+		if (typeof use !== "string" || !Object.hasOwn(fragments, use)) {
+			issues.push({
+				path: [...path, "use"],
+				message: `Unknown slot fragment ${JSON.stringify(use)} (available: ${Object.keys(fragments).join(", ")})`,
+			});
+			return overrides;
+		}
+
+		usages.push({ path, fragment: use });
+		return { ...fragments[use], ...overrides };
+	};
+
+	const slots: RawObject = {};
+	for (const [slotId, entry] of Object.entries(raw.slots)) {
+		const slot = expandEntry(entry, ["slots", slotId]);
+		if (isObject(slot) && isObject(slot.fields)) {
+			const fields: RawObject = {};
+			for (const [fieldId, field] of Object.entries(slot.fields)) {
+				fields[fieldId] = expandEntry(field, [
+					"slots",
+					slotId,
+					"fields",
+					fieldId,
+				]);
+			}
+			slots[slotId] = { ...slot, fields };
+		} else {
+			slots[slotId] = slot;
+		}
+	}
+
+	return { expanded: { ...raw, slots }, usages, issues };
+}
+
+/**
+ * Describe the fragment behind a parse issue, if its path is inside a slot
+ * (or group field) that uses one. Returns "" otherwise.
+ */
+export function describeFragmentUsage(
+	usages: FragmentUsage[],
+	issuePath: PropertyKey[],
+): string {
+	const usage = usages
+		.filter((u) => u.path.every((segment, i) => issuePath[i] === segment))
+		.sort((a, b) => b.path.length - a.path.length)[0];
+	if (!usage) return "";
+	return ` [from fragment "${usage.fragment}" in ${SLOT_FRAGMENTS_FILE}, used at ${usage.path.join(".")}]`;
+}
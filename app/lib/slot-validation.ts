@@ -0,0 +1,475 @@
+import type { ModelCapabilities } from "./api/types.js";
+import type {
+	GroupFieldDefinition,
+	ListItemDefinition,
+	ModelRequirements,
+	SlotDefinition,
+	TextFormat,
+} from "./harness-schema.js";
+
+// Conventional names only: upper case keeps lowercase tokens from passing as names
+export const ENV_VAR_NAME = /^[A-Z_][A-Z0-9_]*$/;
+
+// Well-known API key and token prefixes (OpenAI, Anthropic, GitHub, Slack, AWS, Google, GitLab)
+const SECRET_PREFIX =
+	/^(sk|pk|rk)[-_]|^(ghp|gho|ghu|ghs|ghr|github_pat)_|^xox[abprs]-|^AKIA[0-9A-Z]{16}$|^AIza|^glpat-/;
+
+/**
+ * Heuristic check for values that look like a real API key rather than
+ * an environment variable name: a known key prefix, or a segment of 20+
+ * characters that mixes letters and digits, in any case.
+ */
+export function looksLikeSecret(value: string): boolean {
+	if (SECRET_PREFIX.test(value)) return true;
+	return value
+		.split(/[_-]/)
+		.some(
+			(segment) =>
+				segment.length >= 20 && /[A-Za-z]/.test(segment) && /\d/.test(segment),
+		);
+}
+
+const IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_-]*$/;
+
+/**
+ * Check a string against a text slot format.
+ * Returns an error message if invalid, null if valid.
+ */
+function getTextFormatError(format: TextFormat, value: string): string | null {
+	switch (format) {
+		case "url":
+			try {
+				const url = new URL(value);
+				if (url.protocol === "http:" || url.protocol === "https:") return null;
+			} catch {
+				// fall through to the error below
+			}
+			return "Value must be an http(s) URL";
+
+		case "identifier":
+			return IDENTIFIER.test(value)
+				? null
+				: "Value must be an identifier (letters, digits, _ and -, not starting with a digit)";
+
+		case "path":
+			return /[\0\r\n]/.test(value)
+				? "Value must be a file path (no line breaks or NUL characters)"
+				: null;
+
+		case "glob":
+			if (/[\0\r\n]/.test(value)) {
+				return "Value must be a glob pattern (no line breaks)";
+			}
+			return hasBalancedGlobBrackets(value)
+				? null
+				: "Value must be a glob pattern with balanced [] and {}";
+	}
+}
+
+function hasBalancedGlobBrackets(value: string): boolean {
+	const stack: string[] = [];
+	for (let i = 0; i < value.length; i++) {
+		const char = value[i];
+		if (char === "\\") {
+			i++; // skip escaped character
+		} else if (char === "[" || char === "{") {
+			stack.push(char === "[" ? "]" : "}");
+		} else if (char === "]" || char === "}") {
+			if (stack.pop() !== char) return false;
+		}
+	}
+	return stack.length === 0;
+}
+
+/**
+ * Validate a text value against length, pattern and format constraints.
+ * An empty string counts as "no value": only minLength applies to it.
+ * Returns an error message if invalid, null if valid.
+ */
+export function getTextError(
+	slotDef: Extract<SlotDefinition, { type: "text" }>,
+	value: string,
+): string | null {
+	if (slotDef.minLength !== undefined && value.length < slotDef.minLength) {
+		return `Must be at least ${slotDef.minLength} character${slotDef.minLength === 1 ? "" : "s"}`;
+	}
+	if (slotDef.maxLength !== undefined && value.length > slotDef.maxLength) {
+		return `Must be at most ${slotDef.maxLength} character${slotDef.maxLength === 1 ? "" : "s"}`;
+	}
+	if (value === "") return null;
+
+	if (!slotDef.multiline && /[\r\n]/.test(value)) {
+		return "Value must be a single line";
+	}
+	if (
+		slotDef.pattern !== undefined &&
+		!new RegExp(slotDef.pattern).test(value)
+	) {
+		return `Value must match pattern ${slotDef.pattern}`;
+	}
+	if (slotDef.format !== undefined) {
+		return getTextFormatError(slotDef.format, value);
+	}
+	return null;
+}
+
+type GroupSlotDefinition = Pick<
+	Extract<SlotDefinition, { type: "group" }>,
+	"fields" | "key" | "reservedKeys"
+>;
+
+// Instance keys become object keys in generated files
+export const RESERVED_GROUP_KEYS = ["__proto__", "constructor", "prototype"];
+
+/**
+ * Validate a single list item against its item definition.
+ * Returns an error message if invalid, null if valid.
+ */
+export function getListItemError(
+	item: ListItemDefinition,
+	value: unknown,
+): string | null {
+	switch (item.type) {
+		case "text":
+			if (typeof value !== "string" || value.trim().length === 0) {
+				return "Item must be a non-empty string";
+			}
+			break;
+
+		case "number":
+			if (typeof value !== "number" || !Number.isFinite(value)) {
+				return "Item must be a number";
+			}
+			if (item.min !== undefined && value < item.min) {
+				return `Item must be >= ${item.min}`;
+			}
+			if (item.max !== undefined && value > item.max) {
+				return `Item must be <= ${item.max}`;
+			}
+			break;
+
+		case "enum":
+			if (typeof value !== "string" || !item.options.includes(value)) {
+				return `Item must be one of: ${item.options.join(", ")}`;
+			}
+			break;
+	}
+
+	return null;
+}
+
+/**
+ * Validate a list length against its minItems/maxItems bounds.
+ * Returns an error message if invalid, null if valid.
+ */
+export function getListLengthError(
+	slotDef: { minItems?: number; maxItems?: number },
+	length: number,
+): string | null {
+	if (slotDef.minItems !== undefined && length < slotDef.minItems) {
+		return `List must have at least ${slotDef.minItems} item${slotDef.minItems === 1 ? "" : "s"}`;
+	}
+	if (slotDef.maxItems !== undefined && length > slotDef.maxItems) {
+		return `List must have at most ${slotDef.maxItems} item${slotDef.maxItems === 1 ? "" : "s"}`;
+	}
+	return null;
+}
+
+/**
+ * Check a provider against a model slot's allowedProviders/blockedProviders.
+ */
+export function isProviderAllowed(
+	slotDef: { allowedProviders?: string[]; blockedProviders?: string[] },
+	providerId: string,
+): boolean {
+	if (
+		slotDef.allowedProviders &&
+		!slotDef.allowedProviders.includes(providerId)
+	) {
+		return false;
+	}
+	return !slotDef.blockedProviders?.includes(providerId);
+}
+
+/**
+ * List the requirements a model does not meet, as short descriptions
+ * (e.g. "tool calling", "128,000+ token context"). Empty when it qualifies.
+ */
+export function getUnmetModelRequirements(
+	requires: ModelRequirements,
+	capabilities: ModelCapabilities,
+): string[] {
+	const unmet: string[] = [];
+	if (requires.toolCall && !capabilities.toolCall) unmet.push("tool calling");
+	if (requires.reasoning && !capabilities.reasoning) unmet.push("reasoning");
+	if (requires.attachment && !capabilities.attachment) {
+		unmet.push("attachments");
+	}
+	if (
+		requires.minContext !== undefined &&
+		(capabilities.contextLimit ?? 0) < requires.minContext
+	) {
+		unmet.push(`${requires.minContext.toLocaleString("en-US")}+ token context`);
+	}
+	for (const modality of requires.modalities?.input ?? []) {
+		if (!capabilities.inputModalities.includes(modality)) {
+			unmet.push(`${modality} input`);
+		}
+	}
+	for (const modality of requires.modalities?.output ?? []) {
+		if (!capabilities.outputModalities.includes(modality)) {
+			unmet.push(`${modality} output`);
+		}
+	}
+	return unmet;
+}
+
+/**
+ * Describe every requirement, e.g. for a "Requires …" hint.
+ */
+export function describeModelRequirements(
+	requires: ModelRequirements,
+): string[] {
+	return getUnmetModelRequirements(requires, {
+		toolCall: false,
+		reasoning: false,
+		attachment: false,
+		inputModalities: [],
+		outputModalities: [],
+	});
+}
+
+/**
+ * Validate a multiEnum selection count against minSelected/maxSelected.
+ * Returns an error message if invalid, null if valid.
+ */
+export function getSelectionCountError(
+	slotDef: { minSelected?: number; maxSelected?: number },
+	count: number,
+): string | null {
+	if (slotDef.minSelected !== undefined && count < slotDef.minSelected) {
+		return `Select at least ${slotDef.minSelected} option${slotDef.minSelected === 1 ? "" : "s"}`;
+	}
+	if (slotDef.maxSelected !== undefined && count > slotDef.maxSelected) {
+		return `Select at most ${slotDef.maxSelected} option${slotDef.maxSelected === 1 ? "" : "s"}`;
+	}
+	return null;
+}
+
+/**
+ * Validate one field of a group instance.
+ * Model fields and the key field are required; other fields may be unset.
+ * Returns an error message if invalid, null if valid.
+ */
+export function getGroupFieldError(
+	slotDef: GroupSlotDefinition,
+	fieldId: string,
+	value: unknown,
+): string | null {
+	const fieldDef: GroupFieldDefinition | undefined = slotDef.fields[fieldId];
+	if (!fieldDef) {
+		return `Unknown field "${fieldId}"`;
+	}
+
+	if (value === undefined || value === "") {
+		const required = fieldDef.type === "model" || fieldId === slotDef.key;
+		return required ? "Value is required" : null;
+	}
+
+	if (
+		fieldId === slotDef.key &&
+		typeof value === "string" &&
+		(RESERVED_GROUP_KEYS.includes(value) ||
+			slotDef.reservedKeys?.includes(value))
+	) {
+		return `"${value}" is reserved. Choose another name`;
+	}
+
+	return getSlotValueError(fieldDef, value);
+}
+
+/**
+ * Validate a group instance: an object of field values.
+ * Missing fields fall back to their defaults.
+ * Returns an error message if invalid, null if valid.
+ */
+export function getGroupInstanceError(
+	slotDef: GroupSlotDefinition,
+	instance: unknown,
+): string | null {
+	if (
+		typeof instance !== "object" ||
+		instance === null ||
+		Array.isArray(instance)
+	) {
+		return "Item must be an object";
+	}
+
+	const values = instance as Record<string, unknown>;
+	for (const fieldId of Object.keys(values)) {
+		if (!(fieldId in slotDef.fields)) {
+			return `Unknown field "${fieldId}"`;
+		}
+	}
+
+	for (const [fieldId, fieldDef] of Object.entries(slotDef.fields)) {
+		const error = getGroupFieldError(
+			slotDef,
+			fieldId,
+			values[fieldId] ?? fieldDef.default,
+		);
+		if (error) {
+			return `${fieldDef.label}: ${error}`;
+		}
+	}
+
+	return null;
+}
+
+/**
+ * Find the index of the first instance whose key repeats an earlier one.
+ * Returns -1 if keys are unique (or the group has no key).
+ */
+export function findDuplicateGroupKey(
+	slotDef: GroupSlotDefinition,
+	instances: unknown[],
+): number {
+	if (slotDef.key === undefined) return -1;
+	const key = slotDef.key;
+
+	const seen = new Set<unknown>();
+	return instances.findIndex((instance) => {
+		const value = (instance as Record<string, unknown> | null)?.[key];
+		if (value === undefined || value === "") return false;
+		if (seen.has(value)) return true;
+		seen.add(value);
+		return false;
+	});
+}
+
+/**
+ * Validate a slot value against its type definition.
+ * Shared by the wizard, the profile API, and harness validation.
+ * Returns an error message if invalid, null if valid.
+ */
+export function getSlotValueError(
+	slotDef: SlotDefinition,
+	value: unknown,
+): string | null {
+	switch (slotDef.type) {
+		case "model": {
+			if (typeof value !== "string" || value.length === 0) {
+				return "Model must be a non-empty string";
+			}
+			const providerId = value.split("/")[0];
+			if (!isProviderAllowed(slotDef, providerId)) {
+				return `Provider "${providerId}" is not supported for this slot`;
+			}
+			break;
+		}
+
+		case "number":
+			if (typeof value !== "number" || !Number.isFinite(value)) {
+				return "Value must be a number";
+			}
+			if (slotDef.min !== undefined && value < slotDef.min) {
+				return `Value must be >= ${slotDef.min}`;
+			}
+			if (slotDef.max !== undefined && value > slotDef.max) {
+				return `Value must be <= ${slotDef.max}`;
+			}
+			break;
+
+		case "enum":
+			if (typeof value !== "string") {
+				return "Enum value must be a string";
+			}
+			if (!slotDef.options.includes(value)) {
+				return `Value must be one of: ${slotDef.options.join(", ")}`;
+			}
+			break;
+
+		case "multiEnum": {
+			if (
+				!Array.isArray(value) ||
+				!value.every((v): v is string => typeof v === "string")
+			) {
+				return "Value must be a list of strings";
+			}
+			const invalid = value.find((v) => !slotDef.options.includes(v));
+			if (invalid !== undefined) {
+				return `"${invalid}" is not one of: ${slotDef.options.join(", ")}`;
+			}
+			if (new Set(value).size !== value.length) {
+				return "Values must be unique";
+			}
+			return getSelectionCountError(slotDef, value.length);
+		}
+
+		case "boolean":
+			if (typeof value !== "boolean") {
+				return "Value must be a boolean";
+			}
+			break;
+
+		case "text":
+			if (typeof value !== "string") {
+				return "Value must be a string";
+			}
+			return getTextError(slotDef, value);
+
+		case "envRef":
+			if (typeof value !== "string") {
+				return "Value must be a string";
+			}
+			// Never echo the value: it may be a pasted key
+			if (looksLikeSecret(value)) {
+				return "Value looks like an API key. Enter the name of the environment variable that holds it instead";
+			}
+			if (!ENV_VAR_NAME.test(value)) {
+				return "Value must be an environment variable name (upper-case letters, digits and _)";
+			}
+			break;
+
+		case "list": {
+			if (!Array.isArray(value)) {
+				return "Value must be a list";
+			}
+			const lengthError = getListLengthError(slotDef, value.length);
+			if (lengthError) {
+				return lengthError;
+			}
+			for (let i = 0; i < value.length; i++) {
+				const itemError = getListItemError(slotDef.item, value[i]);
+				if (itemError) {
+					return `Item ${i + 1}: ${itemError}`;
+				}
+			}
+			break;
+		}
+
+		case "group": {
+			if (!Array.isArray(value)) {
+				return "Value must be a list";
+			}
+			const lengthError = getListLengthError(slotDef, value.length);
+			if (lengthError) {
+				return lengthError;
+			}
+			for (let i = 0; i < value.length; i++) {
+				const instanceError = getGroupInstanceError(slotDef, value[i]);
+				if (instanceError) {
+					return `Item ${i + 1}: ${instanceError}`;
+				}
+			}
+			const duplicateIndex = findDuplicateGroupKey(slotDef, value);
+			if (duplicateIndex !== -1 && slotDef.key !== undefined) {
+				const keyLabel = slotDef.fields[slotDef.key]?.label ?? slotDef.key;
+				return `Item ${duplicateIndex + 1}: ${keyLabel} must be unique`;
+			}
+			break;
+		}
+	}
+
+	return null;
+}
@@ -1,7 +1,9 @@
 import { create } from "zustand";
 import { fetchProviders } from "~/lib/api/client";
+import { getSubmissionWithDefaults } from "~/lib/api/ref-resolver";
 import type { ProviderSummary } from "~/lib/api/types";
 import { getHarness } from "~/lib/harness-registry";
+import { getHiddenSlotIds } from "~/lib/slot-conditions";
 import { validateStep } from "~/lib/wizard-validation";
 import type { StepId } from "../wizard-step-id";
 
@@ -131,9 +133,11 @@ export const useWizardStore = create<WizardState & WizardActions>(
 			const harness = getHarness(harnessId);
 			if (!harness) return;
 
-			// Initialize slot values with defaults
+			// Initialize slot values with defaults. Slots with defaultFrom stay
+			// unset so they keep following their source until detached.
 			const slotValues: Record<string, unknown> = {};
 			for (const [slotId, slotDef] of Object.entries(harness.slots)) {
+				if (slotDef.defaultFrom) continue;
 				if (slotDef.default !== undefined) {
 					slotValues[slotId] = slotDef.default;
 				}
@@ -199,18 +203,37 @@ export const useWizardStore = create<WizardState & WizardActions>(
 				return;
 			}
 
-			// Clear model slots that reference removed providers
+			const usesRemovedProvider = (value: unknown) =>
+				typeof value === "string" && removed.includes(value.split("/")[0]);
+
+			// Clear model slots (and group model fields) that reference removed providers
 			const updatedSlotValues = { ...slotValues };
 			for (const [slotId, slotDef] of Object.entries(harness.slots)) {
 				if (slotDef.type === "model") {
-					const value = updatedSlotValues[slotId];
-					if (typeof value === "string") {
-						const providerId = value.split("/")[0];
-						if (removed.includes(providerId)) {
-							delete updatedSlotValues[slotId];
-						}
+					if (usesRemovedProvider(updatedSlotValues[slotId])) {
+						delete updatedSlotValues[slotId];
 					}
 				}
+				if (slotDef.type === "group") {
+					const instances = updatedSlotValues[slotId];
+					if (!Array.isArray(instances)) continue;
+					updatedSlotValues[slotId] = instances.map(
+						(instance: Record<string, unknown>) => {
+							const next = { ...instance };
+							for (const [fieldId, fieldDef] of Object.entries(
+								slotDef.fields,
+							)) {
+								if (
+									fieldDef.type === "model" &&
+									usesRemovedProvider(next[fieldId])
+								) {
+									delete next[fieldId];
+								}
+							}
+							return next;
+						},
+					);
+				}
 			}
 
 			set({
@@ -379,20 +402,17 @@ export const selectAreAllSlotsComplete = (state: WizardState) => {
 	const harness = getHarness(harnessId);
 	if (!harness) return false;
 
-	// Check each model slot has a value
-	return Object.entries(harness.slots).every(([slotId, slotDef]) => {
-		if (slotDef.type === "model") {
-			return state.slotValues[slotId] !== undefined;
-		}
-		// Non-model slots can use defaults
-		return (
-			state.slotValues[slotId] !== undefined || slotDef.default !== undefined
-		);
-	});
+	// Check each visible slot has a value: set, inherited via defaultFrom,
+	// or (for non-model slots) its default
+	const hiddenSlotIds = getHiddenSlotIds(harness, state.slotValues);
+	const effectiveValues = getSubmissionWithDefaults(harness, state.slotValues);
+	return Object.keys(harness.slots).every(
+		(slotId) =>
+			hiddenSlotIds.has(slotId) || effectiveValues[slotId] !== undefined,
+	);
 };
 
 // Computed selectors
-export const selectDefaultProvider = (state: WizardState) => state.providers[0];
 export const selectHasProviders = (state: WizardState) =>
 	state.providers.length > 0;
 
@@ -0,0 +1,22 @@
+import type { HarnessConfig } from "./harness-schema.js";
+
+/**
+ * Minimal valid harness for unit tests: one empty page and one JSON
+ * output. Tests override only the parts they exercise.
+ */
+export function createTestHarness(
+	overrides: Partial<HarnessConfig> = {},
+): HarnessConfig {
+	return {
+		id: "test",
+		name: "Test",
+		description: "Test harness",
+		defaultProfileName: "test",
+		dependencies: [],
+		slots: {},
+		flow: [{ id: "test", label: "Test", sections: [] }],
+		outputs: [{ path: "opencode.json", label: "Config" }],
+		templates: [{ output: "opencode.json", template: {} }],
+		...overrides,
+	};
+}
@@ -1,5 +1,6 @@
 import { href } from "react-router";
 import { getHarness } from "./harness-registry";
+import { getActivePages } from "./slot-conditions";
 
 // Base steps that are always present
 const BASE_STEPS_START = [{ id: "harness", path: "/", label: "Harness" }];
@@ -13,9 +14,13 @@ export interface WizardStep {
 
 /**
  * Generate wizard steps based on harness configuration.
- * Steps are: harness → providers → [flow pages] → review
+ * Steps are: harness → providers → [active flow pages] → review
+ * Pages whose visibleWhen condition is not met are skipped.
  */
-export function getWizardSteps(harnessId: string | undefined): WizardStep[] {
+export function getWizardSteps(
+	harnessId: string | undefined,
+	slotValues: Record<string, unknown> = {},
+): WizardStep[] {
 	if (!harnessId) {
 		return BASE_STEPS_START;
 	}
@@ -34,8 +39,8 @@ export function getWizardSteps(harnessId: string | undefined): WizardStep[] {
 		label: "Providers",
 	});
 
-	// Add flow pages from harness configuration
-	for (const page of harness.flow) {
+	// Add active flow pages from harness configuration
+	for (const page of getActivePages(harness, slotValues)) {
 		steps.push({
 			id: `page-${page.id}`,
 			path: href("/flow/:harnessId/page/:pageId", {
@@ -60,8 +65,11 @@ export function getWizardSteps(harnessId: string | undefined): WizardStep[] {
  * Get active steps (for backward compatibility during transition).
  * Now just calls getWizardSteps.
  */
-export function getActiveSteps(harnessId: string | undefined): WizardStep[] {
-	return getWizardSteps(harnessId);
+export function getActiveSteps(
+	harnessId: string | undefined,
+	slotValues: Record<string, unknown> = {},
+): WizardStep[] {
+	return getWizardSteps(harnessId, slotValues);
 }
 
 // Keep HARNESSES export for backward compatibility, but update to use new registry
@@ -118,10 +126,11 @@ export function getStepFromPath(
 export function getNextLabel(
 	currentStepId: string,
 	harnessId: string | undefined,
+	slotValues: Record<string, unknown> = {},
 ): "Next" | "Review" | "Create Profile" {
 	if (currentStepId === "review") return "Create Profile";
 
-	const steps = getWizardSteps(harnessId);
+	const steps = getWizardSteps(harnessId, slotValues);
 	const nextStep = getNextStep(steps, currentStepId);
 	if (nextStep?.id === "review") return "Review";
 
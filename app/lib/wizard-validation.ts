@@ -1,5 +1,8 @@
+import { getSubmissionWithDefaults } from "~/lib/api/ref-resolver";
 import { getHarness } from "~/lib/harness-registry";
-import type { FlowPage } from "~/lib/harness-schema";
+import type { FlowPage, SlotDefinition } from "~/lib/harness-schema";
+import { getActivePages, getHiddenSlotIds } from "~/lib/slot-conditions";
+import { getSlotValueError } from "~/lib/slot-validation";
 
 export interface StepValidationResult {
 	isValid: boolean;
@@ -111,7 +114,13 @@ export function validateFlowPage(
 	}
 
 	// Collect errors for incomplete slots (Intentional Naming)
-	const errors = collectPageSlotErrors(page, harness.slots, slotValues);
+	const hiddenSlotIds = getHiddenSlotIds(harness, slotValues);
+	const errors = collectPageSlotErrors(
+		page,
+		harness.slots,
+		getSubmissionWithDefaults(harness, slotValues),
+		hiddenSlotIds,
+	);
 
 	return {
 		isValid: errors.length === 0,
@@ -120,7 +129,7 @@ export function validateFlowPage(
 }
 
 /**
- * Validate all slots across all flow pages.
+ * Validate all slots across all active flow pages.
  * Used for the review step to ensure complete configuration.
  *
  * @param harnessId - The harness identifier
@@ -142,9 +151,16 @@ export function validateAllSlots(
 
 	// Collect errors from all pages (Atomic Predictability)
 	const allErrors: string[] = [];
-
-	for (const page of harness.flow) {
-		const pageErrors = collectPageSlotErrors(page, harness.slots, slotValues);
+	const hiddenSlotIds = getHiddenSlotIds(harness, slotValues);
+	const effectiveValues = getSubmissionWithDefaults(harness, slotValues);
+
+	for (const page of getActivePages(harness, slotValues)) {
+		const pageErrors = collectPageSlotErrors(
+			page,
+			harness.slots,
+			effectiveValues,
+			hiddenSlotIds,
+		);
 		allErrors.push(...pageErrors);
 	}
 
@@ -156,20 +172,22 @@ export function validateAllSlots(
 
 /**
  * Helper: Collect error messages for incomplete slots on a page.
- * A slot is complete when it has a value set or has a default.
+ * A slot is complete when it has a value set, inherits one through
+ * `defaultFrom`, or has a default, and the effective value satisfies the
+ * slot's constraints (e.g. list length).
+ * Slots hidden by `visibleWhen` are never required.
  *
  * @param page - The flow page to validate
  * @param slotDefinitions - The harness slot definitions
- * @param slotValues - The current slot values
+ * @param slotValues - The effective slot values (with defaults applied)
+ * @param hiddenSlotIds - Slots hidden by their visibility condition
  * @returns Array of error messages for incomplete slots
  */
 function collectPageSlotErrors(
 	page: FlowPage,
-	slotDefinitions: Record<
-		string,
-		{ label: string; type: string; default?: unknown }
-	>,
+	slotDefinitions: Record<string, SlotDefinition>,
 	slotValues: Record<string, unknown>,
+	hiddenSlotIds: Set<string>,
 ): string[] {
 	const errors: string[] = [];
 
@@ -180,17 +198,30 @@ function collectPageSlotErrors(
 		// Check each slot in the section
 		for (const slotId of slotIds) {
 			const slotDef = slotDefinitions[slotId];
-			if (!slotDef) continue;
+			if (!slotDef || hiddenSlotIds.has(slotId)) continue;
 
-			// Model slots must have a value set
+			// Model slots must have a value set, from a supported provider
 			if (slotDef.type === "model") {
 				const value = slotValues[slotId];
 				if (!value) {
 					const slotLabel = slotDef.label ?? slotId;
 					errors.push(`Model required for ${slotLabel}`);
+					continue;
+				}
+				const valueError = getSlotValueError(slotDef, value);
+				if (valueError) {
+					errors.push(`${slotDef.label}: ${valueError}`);
 				}
+				continue;
+			}
+
+			// Other slot types can use defaults, but must satisfy constraints
+			const value = slotValues[slotId];
+			if (value === undefined) continue;
+			const valueError = getSlotValueError(slotDef, value);
+			if (valueError) {
+				errors.push(`${slotDef.label}: ${valueError}`);
 			}
-			// Other slot types can use defaults
 		}
 	}
 
@@ -0,0 +1,148 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { HARNESSES } from "~/lib/harness-registry";
+import { createTestHarness } from "~/lib/test-harness";
+import type { Route } from "./+types/api.profiles";
+import { action } from "./api.profiles";
+
+const HARNESS_ID = "api-profiles-test";
+
+// Cached models.dev catalog, so the route never fetches it
+const CATALOG = {
+	fetchedAt: 0,
+	providers: {
+		openai: {
+			id: "openai",
+			name: "OpenAI",
+			env: ["OPENAI_API_KEY"],
+			npm: "@ai-sdk/openai",
+			doc: "https://platform.openai.com/docs",
+			models: {},
+		},
+	},
+};
+
+// In-memory stand-in for the PROFILES_KV binding
+function createKv() {
+	const store = new Map([["catalog:models-dev", JSON.stringify(CATALOG)]]);
+	const kv = {
+		get: async (key: string, type?: string) => {
+			const value = store.get(key) ?? null;
+			return value !== null && type === "json" ? JSON.parse(value) : value;
+		},
+		put: async (key: string, value: string) => {
+			store.set(key, value);
+		},
+	};
+	return { store, kv };
+}
+
+async function submitProfile(body: unknown) {
+	const { store, kv } = createKv();
+	const request = new Request("http://localhost/api/profiles", {
+		method: "POST",
+		headers: { "content-type": "application/json" },
+		body: JSON.stringify(body),
+	});
+	const response = await action({
+		request,
+		context: { cloudflare: { env: { PROFILES_KV: kv } } },
+	} as unknown as Route.ActionArgs);
+	const json = (await response.json()) as Record<string, unknown>;
+	const stored = store.get(`profile:${json.componentId}`);
+	return {
+		status: response.status,
+		json,
+		profile: stored ? JSON.parse(stored) : undefined,
+	};
+}
+
+describe("POST /api/profiles", () => {
+	beforeAll(() => {
+		HARNESSES[HARNESS_ID] = createTestHarness({
+			id: HARNESS_ID,
+			slots: {
+				model: { type: "model", label: "Model" },
+				advanced: { type: "boolean", label: "Advanced", default: false },
+				notes: {
+					type: "text",
+					label: "Notes",
+					visibleWhen: { slot: "advanced" },
+				},
+			},
+			templates: [
+				{
+					output: "opencode.json",
+					template: { model: { $ref: "#/slots/model" } },
+				},
+			],
+		});
+	});
+
+	afterAll(() => {
+		delete HARNESSES[HARNESS_ID];
+	});
+
+	it("does not store values of hidden slots", async () => {
+		const { status, profile } = await submitProfile({
+			harnessId: HARNESS_ID,
+			slotValues: { model: "openai/gpt-5", notes: { not: "validated" } },
+		});
+
+		expect(status).toBe(200);
+		expect(profile.request.slotValues).toEqual({ model: "openai/gpt-5" });
+	});
+
+	it("validates and stores values of visible slots", async () => {
+		const invalid = await submitProfile({
+			harnessId: HARNESS_ID,
+			slotValues: { model: "openai/gpt-5", advanced: true, notes: 42 },
+		});
+		expect(invalid.status).toBe(400);
+
+		const { status, profile } = await submitProfile({
+			harnessId: HARNESS_ID,
+			slotValues: { model: "openai/gpt-5", advanced: true, notes: "Hi" },
+		});
+		expect(status).toBe(200);
+		expect(profile.request.slotValues).toEqual({
+			model: "openai/gpt-5",
+			advanced: true,
+			notes: "Hi",
+		});
+	});
+
+	it("accepts selected providers from the catalog", async () => {
+		const { status, profile } = await submitProfile({
+			harnessId: HARNESS_ID,
+			slotValues: { model: "openai/gpt-5" },
+			providers: ["openai"],
+		});
+
+		expect(status).toBe(200);
+		expect(profile.request.providers).toEqual(["openai"]);
+	});
+
+	it("rejects unknown providers and oversized selections", async () => {
+		const unknown = await submitProfile({
+			harnessId: HARNESS_ID,
+			slotValues: { model: "openai/gpt-5" },
+			providers: ["openai", "constructor"],
+		});
+		expect(unknown.status).toBe(400);
+		expect(unknown.json.error).toMatchObject({
+			details: {
+				error: {
+					path: "/providers/1",
+					message: "Unknown provider: constructor",
+				},
+			},
+		});
+
+		const oversized = await submitProfile({
+			harnessId: HARNESS_ID,
+			slotValues: { model: "openai/gpt-5" },
+			providers: Array.from({ length: 51 }, () => "openai"),
+		});
+		expect(oversized.status).toBe(400);
+	});
+});
@@ -1,12 +1,33 @@
 import { ZodError } from "zod";
+import {
+	getCatalog,
+	getModelCapabilities,
+	providerExists,
+} from "~/lib/api/catalog-service";
 import { generateProfileFiles } from "~/lib/api/file-generator";
 import { generateComponentId } from "~/lib/api/id-generator";
+import { normalizeOutputPath } from "~/lib/api/output-path";
 import { checkRateLimit, saveProfile } from "~/lib/api/profile-store";
 import { getSubmissionWithDefaults } from "~/lib/api/ref-resolver";
 import { parseCreateProfileRequest } from "~/lib/api/schemas";
-import { createErrorResponse, createJsonResponse } from "~/lib/api/types";
+import {
+	createErrorResponse,
+	createJsonResponse,
+	type GeneratedFile,
+} from "~/lib/api/types";
 import { getHarness } from "~/lib/harness-registry";
-import type { SlotDefinition } from "~/lib/harness-schema";
+import type {
+	HarnessConfig,
+	ModelRequirements,
+	SlotDefinition,
+} from "~/lib/harness-schema";
+import { getOutputSchemaIssues } from "~/lib/output-schemas";
+import { getHiddenSlotIds } from "~/lib/slot-conditions";
+import {
+	getSlotValueError,
+	getUnmetModelRequirements,
+	looksLikeSecret,
+} from "~/lib/slot-validation";
 import type { Route } from "./+types/api.profiles";
 
 const MAX_PAYLOAD_SIZE = 10 * 1024; // 10KB
@@ -20,53 +41,87 @@ function validateSlotValue(
 	value: unknown,
 	slotDef: SlotDefinition,
 ): { path: string; slotId: string; message: string } | null {
-	const path = `/slotValues/${slotId}`;
-
-	switch (slotDef.type) {
-		case "model":
-			if (typeof value !== "string" || value.length === 0) {
-				return { path, slotId, message: "Model must be a non-empty string" };
-			}
-			break;
+	const message = getSlotValueError(slotDef, value);
+	if (!message) return null;
+	return { path: `/slotValues/${slotId}`, slotId, message };
+}
 
-		case "number":
-			if (typeof value !== "number" || !Number.isFinite(value)) {
-				return { path, slotId, message: "Value must be a number" };
-			}
-			if (slotDef.min !== undefined && value < slotDef.min) {
-				return { path, slotId, message: `Value must be >= ${slotDef.min}` };
-			}
-			if (slotDef.max !== undefined && value > slotDef.max) {
-				return { path, slotId, message: `Value must be <= ${slotDef.max}` };
-			}
-			break;
+interface ModelRequirementCheck {
+	path: string;
+	slotId: string;
+	value: string;
+	requires: ModelRequirements;
+}
 
-		case "enum":
-			if (typeof value !== "string") {
-				return { path, slotId, message: "Enum value must be a string" };
-			}
-			if (!slotDef.options.includes(value)) {
-				return {
-					path,
-					slotId,
-					message: `Value must be one of: ${slotDef.options.join(", ")}`,
-				};
-			}
-			break;
+/**
+ * Collect selected models (including group model fields) whose slot
+ * declares capability requirements. Hidden slots are skipped.
+ */
+function collectModelRequirementChecks(
+	harness: HarnessConfig,
+	slotValues: Record<string, unknown>,
+	hiddenSlotIds: Set<string>,
+): ModelRequirementCheck[] {
+	const checks: ModelRequirementCheck[] = [];
+	for (const [slotId, slotDef] of Object.entries(harness.slots)) {
+		if (hiddenSlotIds.has(slotId)) continue;
+		const value = slotValues[slotId];
 
-		case "boolean":
-			if (typeof value !== "boolean") {
-				return { path, slotId, message: "Value must be a boolean" };
-			}
-			break;
+		if (
+			slotDef.type === "model" &&
+			slotDef.requires &&
+			typeof value === "string"
+		) {
+			checks.push({
+				path: `/slotValues/${slotId}`,
+				slotId,
+				value,
+				requires: slotDef.requires,
+			});
+		}
 
-		case "text":
-			if (typeof value !== "string") {
-				return { path, slotId, message: "Value must be a string" };
-			}
-			break;
+		if (slotDef.type === "group" && Array.isArray(value)) {
+			value.forEach((instance: Record<string, unknown>, index) => {
+				for (const [fieldId, fieldDef] of Object.entries(slotDef.fields)) {
+					const fieldValue = instance[fieldId];
+					if (
+						fieldDef.type !== "model" ||
+						!fieldDef.requires ||
+						typeof fieldValue !== "string"
+					) {
+						continue;
+					}
+					checks.push({
+						path: `/slotValues/${slotId}/${index}/${fieldId}`,
+						slotId,
+						value: fieldValue,
+						requires: fieldDef.requires,
+					});
+				}
+			});
+		}
 	}
+	return checks;
+}
 
+/**
+ * Check generated files against their outputs' schemas.
+ * Returns an error message for the first mismatch, null if all conform.
+ */
+function getOutputSchemaMismatch(
+	harness: HarnessConfig,
+	files: GeneratedFile[],
+): string | null {
+	for (const file of files) {
+		const output = harness.outputs.find(
+			(o) => normalizeOutputPath(o.path) === file.path,
+		);
+		if (!output?.schema) continue;
+		const issues = getOutputSchemaIssues(output.schema, file.content);
+		if (issues.length > 0) {
+			return `Generated "${file.path}" does not match the "${output.schema}" schema: ${issues.join("; ")}`;
+		}
+	}
 	return null;
 }
 
@@ -147,14 +202,45 @@ export async function action({ request, context }: Route.ActionArgs) {
 			}
 		}
 
+		// 3. Reject env references that look like real keys, even on hidden slots:
+		// the request is stored as-is, so a pasted secret must never get through
+		for (const [slotId, slotDef] of Object.entries(harness.slots)) {
+			const value = validated.slotValues[slotId];
+			if (
+				slotDef.type === "envRef" &&
+				typeof value === "string" &&
+				looksLikeSecret(value)
+			) {
+				const message = `Slot "${slotId}" looks like an API key. Enter an environment variable name instead.`;
+				return createErrorResponse("VALIDATION_ERROR", message, 400, {
+					error: { path: `/slotValues/${slotId}`, slotId, message },
+				});
+			}
+		}
+
+		// Drop values of slots hidden by visibleWhen: they are not validated,
+		// so they are neither emitted nor stored with the profile
+		const hiddenSlotIds = getHiddenSlotIds(harness, validated.slotValues);
+		const submission = {
+			...validated,
+			slotValues: Object.fromEntries(
+				Object.entries(validated.slotValues).filter(
+					([slotId]) => !hiddenSlotIds.has(slotId),
+				),
+			),
+		};
+
 		// Apply defaults to slot values for consistency with build-time validation
 		const finalSlotValues = getSubmissionWithDefaults(
 			harness,
-			validated.slotValues,
+			submission.slotValues,
 		);
 
-		// 3. Validate each slot value against its type
+		// 4. Validate each visible slot value against its type
 		for (const [slotId, slotDef] of Object.entries(harness.slots)) {
+			// Hidden slots are neither required nor validated
+			if (hiddenSlotIds.has(slotId)) continue;
+
 			const value = finalSlotValues[slotId];
 
 			// Check if required slot is missing (after defaults applied)
@@ -188,23 +274,81 @@ export async function action({ request, context }: Route.ActionArgs) {
 			}
 		}
 
-		// Generate files using finalSlotValues
-		const generatedFiles = generateProfileFiles(
-			validated.harnessId,
+		// 5. Check model capability requirements against models.dev metadata
+		const requirementChecks = collectModelRequirementChecks(
+			harness,
 			finalSlotValues,
+			hiddenSlotIds,
 		);
+		if (requirementChecks.length > 0) {
+			const catalog = await getCatalog(kv);
+			for (const check of requirementChecks) {
+				const capabilities = getModelCapabilities(catalog, check.value);
+				const unmet = capabilities
+					? getUnmetModelRequirements(check.requires, capabilities)
+					: [];
+				if (capabilities && unmet.length === 0) continue;
+
+				const message = capabilities
+					? `Model "${check.value}" for slot "${check.slotId}" is missing required capabilities: ${unmet.join(", ")}`
+					: `Model "${check.value}" for slot "${check.slotId}" is not in the model catalog, so its required capabilities cannot be verified`;
+				return createErrorResponse("VALIDATION_ERROR", message, 400, {
+					error: { path: check.path, slotId: check.slotId, message },
+				});
+			}
+		}
 
-		// Generate ID and save (with retry on collision)
+		// 6. Selected providers are emitted as-is ("#/providers"): only accept
+		// providers known to the catalog
+		if (submission.providers && submission.providers.length > 0) {
+			const catalog = await getCatalog(kv);
+			const index = submission.providers.findIndex(
+				(providerId) => !providerExists(catalog, providerId),
+			);
+			if (index !== -1) {
+				const message = `Unknown provider: ${submission.providers[index]}`;
+				return createErrorResponse("VALIDATION_ERROR", message, 400, {
+					error: { path: `/providers/${index}`, message },
+				});
+			}
+		}
+
+		// Generate ID, files and save (with retry on collision). Files are
+		// generated per ID because templates can reference "#/meta/componentId"
+		const createdAt = new Date().toISOString();
 		let componentId: string | undefined;
+		let generatedFiles: GeneratedFile[] = [];
 		let saved = false;
 		for (let attempt = 0; attempt < 3; attempt++) {
 			componentId = generateComponentId();
+			generatedFiles = generateProfileFiles(
+				validated.harnessId,
+				finalSlotValues,
+				{ componentId, createdAt, providers: submission.providers },
+			);
+
+			// harness:validate only checks default answers; with
+			// VALIDATE_OUTPUT_SCHEMAS set, check this submission's files too
+			if (context.cloudflare.env.VALIDATE_OUTPUT_SCHEMAS === "true") {
+				const mismatch = getOutputSchemaMismatch(harness, generatedFiles);
+				if (mismatch) {
+					console.error("Profile output schema mismatch:", mismatch);
+					return createErrorResponse(
+						"OUTPUT_SCHEMA_MISMATCH",
+						"Generated profile files failed validation",
+						500,
+						{ error: { message: mismatch } },
+					);
+				}
+			}
+
 			saved = await saveProfile(
 				kv,
 				componentId,
-				validated,
+				submission,
 				generatedFiles,
 				harness.dependencies,
+				createdAt,
 			);
 			if (saved) break;
 		}
@@ -218,7 +362,10 @@ export async function action({ request, context }: Route.ActionArgs) {
 		}
 
 		// Transform generated files to registry format
-		const registryFiles = generatedFiles.map((f) => ({ ...f, target: f.path }));
+		const registryFiles = generatedFiles.map((f) => ({
+			...f,
+			target: f.target ?? f.path,
+		}));
 		return createJsonResponse(
 			{ componentId, files: registryFiles },
 			{ status: 200 },
@@ -5,6 +5,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "~/components/ui/card";
 import { FieldGroup } from "~/components/ui/field";
 import { PrerequisiteGuard } from "~/components/wizard/prerequisite-guard";
 import { requireHarness, requirePage } from "~/lib/guards";
+import { getHiddenSlotIds, getInactivePageIds } from "~/lib/slot-conditions";
 import {
 	selectAllSlotValues,
 	selectProviders,
@@ -42,7 +43,7 @@ export default function FlowPage() {
 	const bannerRef = useRef<HTMLDivElement>(null);
 
 	// Compute step ID and check if attempted (before guards to satisfy hooks rules)
-	const steps = harnessId ? getWizardSteps(harnessId) : [];
+	const steps = harnessId ? getWizardSteps(harnessId, slotValues) : [];
 	const currentStep = steps.find((s) => s.id === `page-${pageId}`);
 	const stepId = currentStep ? toStepId(currentStep) : null;
 
@@ -79,6 +80,20 @@ export default function FlowPage() {
 		);
 	}
 
+	// Guard clause: page skipped by its visibleWhen condition (Early Exit)
+	if (getInactivePageIds(harness, slotValues).has(currentPage.id)) {
+		return (
+			<div className="flex flex-col gap-6 py-6">
+				<h1 className="text-2xl font-semibold tracking-tight">
+					{currentPage.label}
+				</h1>
+				<p className="text-muted-foreground">
+					This page does not apply to your current selections.
+				</p>
+			</div>
+		);
+	}
+
 	// Validate step
 	const ctx: WizardValidationContext = {
 		harnessId,
@@ -90,6 +105,21 @@ export default function FlowPage() {
 		: { isValid: true, errors: [] };
 	const showErrorBanner = isAttempted && !validation.isValid;
 
+	// Hide slots whose visibleWhen condition is not met
+	const hiddenSlotIds = getHiddenSlotIds(harness, slotValues);
+	const sections = currentPage.sections
+		.map((section) => ({
+			...section,
+			slots: section.slots.filter((slotId) => !hiddenSlotIds.has(slotId)),
+			advanced: section.advanced?.filter(
+				(slotId) => !hiddenSlotIds.has(slotId),
+			),
+		}))
+		.filter(
+			(section) =>
+				section.slots.length > 0 || (section.advanced?.length ?? 0) > 0,
+		);
+
 	return (
 		<div className="flex flex-col gap-6 py-6">
 			{/* Error banner */}
@@ -114,7 +144,7 @@ export default function FlowPage() {
 
 			{/* Sections */}
 			<div className="flex flex-col gap-6">
-				{currentPage.sections.map((section) => (
+				{sections.map((section) => (
 					<div key={section.id} className="space-y-4">
 						<Card id={section.id}>
 							<CardHeader>
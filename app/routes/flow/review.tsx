@@ -7,9 +7,14 @@ import { Card } from "~/components/ui/card";
 import { PrerequisiteGuard } from "~/components/wizard/prerequisite-guard";
 
 import { createProfile } from "~/lib/api/client";
-import { getSubmissionWithDefaults } from "~/lib/api/ref-resolver";
+import {
+	formatEnvRef,
+	getModelProviderIds,
+	getSubmissionWithDefaults,
+} from "~/lib/api/ref-resolver";
 import type { GeneratedFile } from "~/lib/api/types";
 import type { SlotDefinition } from "~/lib/harness-schema";
+import { getActivePages, getHiddenSlotIds } from "~/lib/slot-conditions";
 import {
 	selectAllSlotValues,
 	selectProviders,
@@ -49,6 +54,92 @@ function SlotValueDisplay({
 		);
 	}
 
+	// For env references, show the emitted substitution
+	if (slotDef.type === "envRef") {
+		return (
+			<div
+				className={`flex items-center justify-between ${compact ? "text-sm" : ""}`}
+			>
+				<span
+					className={compact ? "text-muted-foreground" : "text-sm font-medium"}
+				>
+					{slotDef.label}
+				</span>
+				<span className="font-mono text-sm">
+					{typeof value === "string" ? formatEnvRef(value) : ""}
+				</span>
+			</div>
+		);
+	}
+
+	// For list and multi-select slots, show items comma-separated
+	if (slotDef.type === "list" || slotDef.type === "multiEnum") {
+		const items = Array.isArray(value) ? value : [];
+		return (
+			<div
+				className={`flex items-center justify-between ${compact ? "text-sm" : ""}`}
+			>
+				<span
+					className={compact ? "text-muted-foreground" : "text-sm font-medium"}
+				>
+					{slotDef.label}
+				</span>
+				<span className="text-sm text-right">
+					{items.length > 0 ? (
+						items.map(String).join(", ")
+					) : (
+						<span className="text-muted-foreground">None</span>
+					)}
+				</span>
+			</div>
+		);
+	}
+
+	// For group slots, show one line per instance
+	if (slotDef.type === "group") {
+		const instances = Array.isArray(value) ? value : [];
+		return (
+			<div className={`flex flex-col gap-1 ${compact ? "text-sm" : ""}`}>
+				<div className="flex items-center justify-between">
+					<span
+						className={
+							compact ? "text-muted-foreground" : "text-sm font-medium"
+						}
+					>
+						{slotDef.label}
+					</span>
+					{instances.length === 0 && (
+						<span className="text-sm text-muted-foreground">None</span>
+					)}
+				</div>
+				{instances.map((instance: Record<string, unknown>, index) => (
+					<div
+						// biome-ignore lint/suspicious/noArrayIndexKey: instances have no stable identity
+						key={index}
+						className="flex items-start justify-between gap-4 text-sm"
+					>
+						<span className="text-muted-foreground">
+							{(slotDef.key && String(instance[slotDef.key] ?? "")) ||
+								`${slotDef.itemLabel ?? "Item"} ${index + 1}`}
+						</span>
+						<span className="text-right">
+							{Object.entries(slotDef.fields)
+								.filter(
+									([fieldId]) =>
+										fieldId !== slotDef.key && instance[fieldId] !== undefined,
+								)
+								.map(
+									([fieldId, fieldDef]) =>
+										`${fieldDef.label}: ${String(instance[fieldId])}`,
+								)
+								.join(" · ")}
+						</span>
+					</div>
+				))}
+			</div>
+		);
+	}
+
 	// For other slot types
 	return (
 		<div
@@ -79,6 +170,10 @@ export default function ReviewStep() {
 	const displayValues = harness
 		? getSubmissionWithDefaults(harness, slotValues)
 		: {};
+	const hiddenSlotIds = harness
+		? getHiddenSlotIds(harness, slotValues)
+		: new Set<string>();
+	const activePages = harness ? getActivePages(harness, slotValues) : [];
 
 	const [createdProfile, setCreatedProfile] = useState<{
 		componentId: string;
@@ -96,11 +191,14 @@ export default function ReviewStep() {
 
 		if (!harnessId || !harness) return;
 
-		// Validate all model slots are complete
+		// Validate all visible model slots are complete
+		const hidden = getHiddenSlotIds(harness, slotValues);
+		const effectiveValues = getSubmissionWithDefaults(harness, slotValues);
 		const allSlotsComplete = Object.entries(harness.slots).every(
 			([slotId, slotDef]) => {
+				if (hidden.has(slotId)) return true; // Hidden slots are not required
 				if (slotDef.type === "model") {
-					return slotValues[slotId] !== undefined;
+					return effectiveValues[slotId] !== undefined; // set or inherited
 				}
 				return true; // Non-model slots can use defaults
 			},
@@ -114,6 +212,7 @@ export default function ReviewStep() {
 			const result = await createProfile({
 				harnessId,
 				slotValues,
+				providers,
 			});
 
 			setCreatedProfile({
@@ -126,7 +225,14 @@ export default function ReviewStep() {
 		} finally {
 			setReviewStepCreating(false);
 		}
-	}, [createdProfile, harnessId, harness, slotValues, setReviewStepCreating]);
+	}, [
+		createdProfile,
+		harnessId,
+		harness,
+		slotValues,
+		providers,
+		setReviewStepCreating,
+	]);
 
 	// Register handler with wizard store
 	useEffect(() => {
@@ -159,8 +265,8 @@ export default function ReviewStep() {
 					</div>
 				</Card>
 
-				{/* Dynamic Slots grouped by flow structure */}
-				{harness?.flow.map((page) => (
+				{/* Dynamic Slots grouped by active flow pages */}
+				{activePages.map((page) => (
 					<div key={page.id} className="space-y-3">
 						{/* Page header with Edit link */}
 						<div className="flex items-center justify-between">
@@ -178,52 +284,64 @@ export default function ReviewStep() {
 
 						{/* Sections within this page */}
 						<div className="space-y-3">
-							{page.sections.map((section) => (
-								<Card key={section.id} className="p-4">
-									<div className="space-y-3">
-										{/* Section title */}
-										<div className="font-medium">{section.label}</div>
-
-										{/* Main slots */}
-										{section.slots.map((slotId) => {
-											const slotDef = harness.slots[slotId];
-											if (!slotDef) return null;
-											const value = displayValues[slotId];
-
-											return (
-												<SlotValueDisplay
-													key={slotId}
-													slotDef={slotDef}
-													value={value}
-												/>
-											);
-										})}
-
-										{/* Advanced slots */}
-										{section.advanced && section.advanced.length > 0 && (
-											<div className="space-y-2 pt-2 border-t">
-												<div className="text-xs text-muted-foreground">
-													Advanced
+							{page.sections.map((section) => {
+								const visibleSlots = section.slots.filter(
+									(slotId) => !hiddenSlotIds.has(slotId),
+								);
+								const visibleAdvanced = (section.advanced ?? []).filter(
+									(slotId) => !hiddenSlotIds.has(slotId),
+								);
+								if (visibleSlots.length + visibleAdvanced.length === 0) {
+									return null;
+								}
+
+								return (
+									<Card key={section.id} className="p-4">
+										<div className="space-y-3">
+											{/* Section title */}
+											<div className="font-medium">{section.label}</div>
+
+											{/* Main slots */}
+											{visibleSlots.map((slotId) => {
+												const slotDef = harness.slots[slotId];
+												if (!slotDef) return null;
+												const value = displayValues[slotId];
+
+												return (
+													<SlotValueDisplay
+														key={slotId}
+														slotDef={slotDef}
+														value={value}
+													/>
+												);
+											})}
+
+											{/* Advanced slots */}
+											{visibleAdvanced.length > 0 && (
+												<div className="space-y-2 pt-2 border-t">
+													<div className="text-xs text-muted-foreground">
+														Advanced
+													</div>
+													{visibleAdvanced.map((slotId) => {
+														const slotDef = harness.slots[slotId];
+														if (!slotDef) return null;
+														const value = displayValues[slotId];
+
+														return (
+															<SlotValueDisplay
+																key={slotId}
+																slotDef={slotDef}
+																value={value}
+																compact
+															/>
+														);
+													})}
 												</div>
-												{section.advanced.map((slotId) => {
-													const slotDef = harness.slots[slotId];
-													if (!slotDef) return null;
-													const value = displayValues[slotId];
-
-													return (
-														<SlotValueDisplay
-															key={slotId}
-															slotDef={slotDef}
-															value={value}
-															compact
-														/>
-													);
-												})}
-											</div>
-										)}
-									</div>
-								</Card>
-							))}
+											)}
+										</div>
+									</Card>
+								);
+							})}
 						</div>
 					</div>
 				))}
@@ -231,21 +349,10 @@ export default function ReviewStep() {
 
 			{/* Additional Setup Required */}
 			{(() => {
-				// Get unique provider IDs from all model slots
-				const usedProviderIds = [
-					...new Set(
-						Object.entries(harness?.slots ?? {})
-							.filter(([_, slotDef]) => slotDef.type === "model")
-							.map(([slotId]) => {
-								const slotValue = slotValues[slotId];
-								if (typeof slotValue === "string") {
-									return slotValue.split("/")[0];
-								}
-								return undefined;
-							})
-							.filter((id): id is string => Boolean(id)),
-					),
-				];
+				// Get unique provider IDs from all visible model slots and group model fields
+				const usedProviderIds = harness
+					? getModelProviderIds(harness, displayValues)
+					: [];
 
 				// Map to provider data
 				const usedProviders = usedProviderIds
@@ -61,7 +61,7 @@ async function handlePackument(
 	// Build minimal OCX packument (only required fields)
 	const files = profile.files.map((f) => ({
 		path: f.path,
-		target: f.path, // Flat paths for profiles
+		target: f.target ?? f.path, // Flat unless the harness output sets a target
 		content: f.content, // Include content for UI consumption
 	}));
 
@@ -37,8 +37,8 @@ export default function RootLayout() {
 		void ensureProvidersLoaded();
 	}, [ensureProvidersLoaded]);
 
-	// Compute steps based on harness
-	const steps = getWizardSteps(harnessId);
+	// Compute steps based on harness (inactive flow pages are skipped)
+	const steps = getWizardSteps(harnessId, slotValues);
 	const currentStep = getStepFromPath(steps, location.pathname);
 	const currentStepIndex = currentStep ? steps.indexOf(currentStep) : -1;
 	const currentStepId = currentStep ? toStepId(currentStep) : null;
@@ -106,7 +106,11 @@ export default function RootLayout() {
 	};
 
 	// Next button label
-	const nextLabel = getNextLabel(currentStep?.id ?? "harness", harnessId);
+	const nextLabel = getNextLabel(
+		currentStep?.id ?? "harness",
+		harnessId,
+		slotValues,
+	);
 
 	// Can go back? (not on step 1, and not while creating)
 	const canGoBack = currentStepIndex > 0 && !reviewStepCreating;
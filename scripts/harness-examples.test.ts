@@ -0,0 +1,143 @@
+import {
+	mkdtempSync,
+	readFileSync,
+	rmSync,
+	unlinkSync,
+	writeFileSync,
+} from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { getHarness } from "../app/lib/harness-registry.ts";
+import {
+	checkHarnessExamples,
+	findFragmentMismatch,
+} from "./harness-examples.ts";
+
+describe("findFragmentMismatch", () => {
+	const actual = { agent: { build: { temperature: 0.3, tools: ["read"] } } };
+
+	it("matches when every expected key matches", () => {
+		expect(
+			findFragmentMismatch(
+				{ agent: { build: { temperature: 0.3 } } },
+				actual,
+				"",
+			),
+		).toBeNull();
+		expect(findFragmentMismatch({}, actual, "")).toBeNull();
+	});
+
+	it("names the first differing path", () => {
+		expect(
+			findFragmentMismatch(
+				{ agent: { build: { temperature: 0.5 } } },
+				actual,
+				"",
+			),
+		).toBe("agent.build.temperature: expected 0.5, got 0.3");
+		expect(
+			findFragmentMismatch({ agent: { plan: { model: "x" } } }, actual, ""),
+		).toBe("agent.plan: expected an object, got undefined");
+	});
+
+	it("compares arrays as a whole", () => {
+		expect(
+			findFragmentMismatch({ agent: { build: { tools: [] } } }, actual, ""),
+		).toBe('agent.build.tools: expected [], got ["read"]');
+		expect(findFragmentMismatch({ a: 1 }, [], "")).toBe(
+			"(root): expected an object, got []",
+		);
+	});
+});
+
+describe("checkHarnessExamples", () => {
+	const harness = getHarness("opencode-native");
+	if (!harness) throw new Error("opencode-native harness missing");
+	const example = {
+		name: "defaults",
+		slotValues: {
+			build_model: "openai/gpt-5",
+			plan_model: "openai/gpt-5",
+			general_model: "openai/gpt-5",
+			explore_model: "openai/gpt-5",
+		},
+	};
+	const goldenPath = (dir: string) =>
+		join(dir, "golden", harness.id, "defaults", "opencode.jsonc");
+	let dir: string;
+
+	beforeEach(() => {
+		dir = mkdtempSync(join(tmpdir(), "harness-examples-"));
+		writeFileSync(
+			join(dir, `${harness.id}.json`),
+			JSON.stringify({ examples: [example] }),
+		);
+		// Write golden files for the example
+		checkHarnessExamples(harness, true, dir);
+	});
+
+	afterEach(() => {
+		rmSync(dir, { recursive: true, force: true });
+	});
+
+	it("passes when golden files match", () => {
+		expect(checkHarnessExamples(harness, false, dir)).toEqual({
+			errors: [],
+			checked: 1,
+			updated: 0,
+		});
+	});
+
+	it("reports missing, out-of-date and stale golden files", () => {
+		const goldenFile = goldenPath(dir);
+		const golden = readFileSync(goldenFile, "utf-8");
+
+		unlinkSync(goldenFile);
+		expect(checkHarnessExamples(harness, false, dir).errors).toEqual([
+			"Missing golden file golden/opencode-native/defaults/opencode.jsonc (run `bun run harness:update-examples` to accept)",
+		]);
+
+		writeFileSync(goldenFile, golden.replace('"openai/gpt-5"', '"openai/o3"'));
+		expect(checkHarnessExamples(harness, false, dir).errors[0]).toMatch(
+			/^golden\/opencode-native\/defaults\/opencode\.jsonc is out of date at line \d+: expected ".*openai\/o3.*", got ".*openai\/gpt-5.*"/,
+		);
+
+		writeFileSync(goldenFile, golden);
+		writeFileSync(join(dir, "golden", harness.id, "defaults", "old.json"), "");
+		expect(checkHarnessExamples(harness, false, dir).errors).toEqual([
+			"Stale golden file golden/opencode-native/defaults/old.json is not generated by any example (run `bun run harness:update-examples` to accept)",
+		]);
+	});
+
+	it("rewrites and removes golden files on update", () => {
+		writeFileSync(goldenPath(dir), "outdated\n");
+		writeFileSync(join(dir, "golden", harness.id, "defaults", "old.json"), "");
+
+		expect(checkHarnessExamples(harness, true, dir)).toEqual({
+			errors: [],
+			checked: 1,
+			updated: 2,
+		});
+		expect(checkHarnessExamples(harness, false, dir).errors).toEqual([]);
+	});
+
+	it("reports unmet expected fragments", () => {
+		writeFileSync(
+			join(dir, `${harness.id}.json`),
+			JSON.stringify({
+				examples: [
+					{
+						...example,
+						expect: {
+							"opencode.jsonc": { agent: { build: { model: "openai/o3" } } },
+						},
+					},
+				],
+			}),
+		);
+		expect(checkHarnessExamples(harness, false, dir).errors).toEqual([
+			'Example "defaults": "opencode.jsonc" agent.build.model: expected "openai/o3", got "openai/gpt-5"',
+		]);
+	});
+});
@@ -0,0 +1,296 @@
+/**
+ * Harness Examples
+ *
+ * app/config/harness-examples/<harnessId>.json declares named examples:
+ * answers to the wizard and, optionally, fragments the generated files must
+ * contain. Each example is generated with generateProfileFiles and compared
+ * with its golden files in golden/<harnessId>/<example>/:
+ *
+ *   Example: { "name": "defaults", "slotValues": { "build_model": "openai/gpt-5" },
+ *              "expect": { "opencode.jsonc": { "agent": { "build": { "temperature": 0.3 } } } } }
+ *   Golden:  golden/opencode-native/defaults/opencode.jsonc
+ *
+ * With `update`, golden files are rewritten instead of compared, so template
+ * changes show up as diffs in review.
+ */
+
+import {
+	existsSync,
+	mkdirSync,
+	readdirSync,
+	readFileSync,
+	rmSync,
+	writeFileSync,
+} from "node:fs";
+import { dirname, join, relative, resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+import { z } from "zod";
+import { generateProfileFiles } from "../app/lib/api/file-generator.ts";
+import { parseJsonc } from "../app/lib/api/jsonc.ts";
+import {
+	getModelProviderIds,
+	getSubmissionWithDefaults,
+} from "../app/lib/api/ref-resolver.ts";
+import type { HarnessConfig } from "../app/lib/harness-schema.ts";
+import { getSlotValueError } from "../app/lib/slot-validation.ts";
+
+export const EXAMPLES_DIR = resolve(
+	dirname(fileURLToPath(import.meta.url)),
+	"../app/config/harness-examples",
+);
+const UPDATE_HINT = "run `bun run harness:update-examples` to accept";
+
+// Fixed profile context, so "#/meta" output is stable across runs
+const EXAMPLE_RUNTIME = {
+	componentId: "p-example0",
+	createdAt: "2026-01-01T00:00:00.000Z",
+};
+
+const HarnessExampleSchema = z.object({
+	name: z
+		.string()
+		.regex(/^[a-z0-9][a-z0-9-]*$/, "must be lowercase kebab-case"),
+	description: z.string().optional(),
+	providers: z.array(z.string().min(1)).optional(), // default: providers of the chosen models
+	slotValues: z.record(z.string(), z.unknown()),
+	expect: z.record(z.string(), z.unknown()).optional(), // output path → JSON fragment
+});
+
+const HarnessExamplesFileSchema = z.object({
+	examples: z.array(HarnessExampleSchema),
+});
+
+type HarnessExample = z.infer<typeof HarnessExampleSchema>;
+
+export interface ExampleResult {
+	errors: string[];
+	checked: number; // examples run
+	updated: number; // golden files written or removed
+}
+
+/**
+ * Describe where `actual` does not contain `expected`, or return null.
+ * Objects match when every expected key matches; other values must be equal.
+ */
+export function findFragmentMismatch(
+	expected: unknown,
+	actual: unknown,
+	path: string,
+): string | null {
+	if (
+		typeof expected === "object" &&
+		expected !== null &&
+		!Array.isArray(expected)
+	) {
+		if (
+			typeof actual !== "object" ||
+			actual === null ||
+			Array.isArray(actual)
+		) {
+			return `${path || "(root)"}: expected an object, got ${JSON.stringify(actual)}`;
+		}
+		for (const [key, value] of Object.entries(expected)) {
+			const mismatch = findFragmentMismatch(
+				value,
+				(actual as Record<string, unknown>)[key],
+				path ? `${path}.${key}` : key,
+			);
+			if (mismatch) return mismatch;
+		}
+		return null;
+	}
+	return JSON.stringify(expected) === JSON.stringify(actual)
+		? null
+		: `${path || "(root)"}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`;
+}
+
+/**
+ * First differing line between golden and generated content.
+ */
+function describeContentDiff(expected: string, actual: string): string {
+	const expectedLines = expected.split("\n");
+	const actualLines = actual.split("\n");
+	const length = Math.max(expectedLines.length, actualLines.length);
+	for (let i = 0; i < length; i++) {
+		if (expectedLines[i] !== actualLines[i]) {
+			return `line ${i + 1}: expected ${JSON.stringify(expectedLines[i] ?? "<end of file>")}, got ${JSON.stringify(actualLines[i] ?? "<end of file>")}`;
+		}
+	}
+	return "contents differ";
+}
+
+function listFiles(dir: string): string[] {
+	if (!existsSync(dir)) return [];
+	return readdirSync(dir, { recursive: true, withFileTypes: true })
+		.filter((entry) => entry.isFile())
+		.map((entry) => join(entry.parentPath, entry.name));
+}
+
+/**
+ * Generate one example's files, checking its answers and fragments.
+ * Returns golden file contents by path, or null after reporting errors.
+ */
+function generateExample(
+	harness: HarnessConfig,
+	example: HarnessExample,
+	errors: string[],
+): Map<string, string> | null {
+	const prefix = `Example "${example.name}"`;
+	for (const [slotId, value] of Object.entries(example.slotValues)) {
+		const slotDef = harness.slots[slotId];
+		const error = slotDef
+			? getSlotValueError(slotDef, value)
+			: `Unknown slot ID: ${slotId}`;
+		if (error) {
+			errors.push(`${prefix}: slotValues.${slotId}: ${error}`);
+			return null;
+		}
+	}
+
+	const slotValues = getSubmissionWithDefaults(harness, example.slotValues);
+	let files: ReturnType<typeof generateProfileFiles>;
+	try {
+		files = generateProfileFiles(harness.id, slotValues, {
+			...EXAMPLE_RUNTIME,
+			providers: example.providers ?? getModelProviderIds(harness, slotValues),
+		});
+	} catch (err) {
+		errors.push(
+			`${prefix}: generation failed: ${err instanceof Error ? err.message : String(err)}`,
+		);
+		return null;
+	}
+
+	const contents = new Map(
+		files.map((file) => [file.path, `${file.content}\n`]),
+	);
+	for (const [path, fragment] of Object.entries(example.expect ?? {})) {
+		const content = contents.get(path);
+		if (content === undefined) {
+			errors.push(`${prefix}: expected output "${path}" was not generated`);
+			continue;
+		}
+		let parsed: unknown;
+		try {
+			parsed = parseJsonc(content);
+		} catch {
+			errors.push(
+				`${prefix}: "${path}" is not JSON, so it cannot match a fragment`,
+			);
+			continue;
+		}
+		const mismatch = findFragmentMismatch(fragment, parsed, "");
+		if (mismatch) errors.push(`${prefix}: "${path}" ${mismatch}`);
+	}
+	return contents;
+}
+
+/**
+ * Run a harness's examples against their golden files.
+ *
+ * @param harness - Parsed and validated harness
+ * @param update - Rewrite golden files instead of comparing them
+ * @param examplesDir - Directory with example files and their golden/ files
+ * @returns Errors, the number of examples run and golden files changed
+ */
+export function checkHarnessExamples(
+	harness: HarnessConfig,
+	update: boolean,
+	examplesDir = EXAMPLES_DIR,
+): ExampleResult {
+	const result: ExampleResult = { errors: [], checked: 0, updated: 0 };
+	const examplesPath = join(examplesDir, `${harness.id}.json`);
+	const goldenRoot = join(examplesDir, "golden", harness.id);
+	if (!existsSync(examplesPath)) {
+		if (existsSync(goldenRoot)) {
+			result.errors.push(
+				`Golden files in ${relative(examplesDir, goldenRoot)} have no ${harness.id}.json examples file`,
+			);
+		}
+		return result;
+	}
+
+	let examples: HarnessExample[];
+	try {
+		const parsed = HarnessExamplesFileSchema.safeParse(
+			JSON.parse(readFileSync(examplesPath, "utf-8")),
+		);
+		if (!parsed.success) {
+			result.errors.push(
+				...parsed.error.issues.map(
+					(i) => `Invalid examples file: ${i.path.join(".")}: ${i.message}`,
+				),
+			);
+			return result;
+		}
+		examples = parsed.data.examples;
+	} catch (err) {
+		result.errors.push(
+			`Failed to parse examples file: ${err instanceof Error ? err.message : String(err)}`,
+		);
+		return result;
+	}
+
+	const seenNames = new Set<string>();
+	const expectedFiles = new Set<string>();
+	const failedDirs: string[] = [];
+	for (const example of examples) {
+		if (seenNames.has(example.name)) {
+			result.errors.push(`Duplicate example name: ${example.name}`);
+			continue;
+		}
+		seenNames.add(example.name);
+
+		const contents = generateExample(harness, example, result.errors);
+		if (!contents) {
+			// Keep the golden files of an example that failed to generate
+			failedDirs.push(join(goldenRoot, example.name));
+			continue;
+		}
+		result.checked++;
+
+		for (const [path, content] of contents) {
+			const goldenPath = join(goldenRoot, example.name, path);
+			const goldenName = relative(examplesDir, goldenPath);
+			expectedFiles.add(goldenPath);
+			const golden = existsSync(goldenPath)
+				? readFileSync(goldenPath, "utf-8")
+				: undefined;
+			if (golden === content) continue;
+
+			if (update) {
+				mkdirSync(dirname(goldenPath), { recursive: true });
+				writeFileSync(goldenPath, content);
+				result.updated++;
+			} else if (golden === undefined) {
+				result.errors.push(
+					`Missing golden file ${goldenName} (${UPDATE_HINT})`,
+				);
+			} else {
+				result.errors.push(
+					`${goldenName} is out of date at ${describeContentDiff(golden, content)} (${UPDATE_HINT})`,
+				);
+			}
+		}
+	}
+
+	// Golden files no example generates (removed outputs or examples)
+	for (const goldenPath of listFiles(goldenRoot)) {
+		if (
+			expectedFiles.has(goldenPath) ||
+			failedDirs.some((dir) => goldenPath.startsWith(`${dir}/`))
+		) {
+			continue;
+		}
+		if (update) {
+			rmSync(goldenPath);
+			result.updated++;
+		} else {
+			result.errors.push(
+				`Stale golden file ${relative(examplesDir, goldenPath)} is not generated by any example (${UPDATE_HINT})`,
+			);
+		}
+	}
+
+	return result;
+}
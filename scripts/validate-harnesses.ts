@@ -1,14 +1,25 @@
 import { readdirSync, readFileSync } from "node:fs";
-import { basename, dirname, resolve } from "node:path";
+import { basename, dirname, relative, resolve } from "node:path";
 import { fileURLToPath } from "node:url";
 import { z } from "zod";
+import { HarnessExtendsError } from "../app/lib/harness-extends.ts";
 import {
 	deriveHarnessId,
 	HarnessValidationError,
 	parseHarnessConfig,
+	SlotSchema,
 	VALID_HARNESS_FILENAME,
 	validateHarness,
 } from "../app/lib/harness-schema.ts";
+import {
+	OUTPUT_SCHEMAS,
+	OUTPUT_SCHEMAS_DIR,
+} from "../app/lib/output-schemas.ts";
+import {
+	SLOT_FRAGMENTS,
+	SLOT_FRAGMENTS_FILE,
+} from "../app/lib/slot-fragments.ts";
+import { checkHarnessExamples, EXAMPLES_DIR } from "./harness-examples.ts";
 
 // Get script directory
 const __filename = fileURLToPath(import.meta.url);
@@ -16,6 +27,9 @@ const __dirname = dirname(__filename);
 
 const HARNESS_DIR = resolve(__dirname, "../app/config/harnesses");
 
+// --update rewrites example golden files instead of comparing them
+const UPDATE_GOLDEN = process.argv.includes("--update");
+
 // Expected harness IDs (must match HARNESS_IDS in harness-registry.ts)
 const EXPECTED_HARNESS_IDS = [
 	"kdco-workspace",
@@ -24,12 +38,14 @@ const EXPECTED_HARNESS_IDS = [
 ] as const;
 
 interface ValidationError {
-	type: "error";
+	type: "error" | "warning";
 	file?: string;
 	message: string;
 }
 
 const errors: ValidationError[] = [];
+// Static analysis warnings are reported but do not fail validation
+const warnings: ValidationError[] = [];
 
 // Read all JSON files in harness directory
 let files: string[] = [];
@@ -49,10 +65,24 @@ try {
 	process.exit(1);
 }
 
+// Raw configs by harness ID, so `extends` can resolve bases from any file
+const rawHarnesses: Record<string, unknown> = {};
+for (const file of files) {
+	if (!VALID_HARNESS_FILENAME.test(file)) continue;
+	try {
+		const content = readFileSync(resolve(HARNESS_DIR, file), "utf-8");
+		rawHarnesses[deriveHarnessId(file)] = JSON.parse(content);
+	} catch {
+		// Reported when the file itself is validated below
+	}
+}
+
 const fileIds = new Set<string>();
 const derivedIds = new Set<string>();
 const seenFiles = new Set<string>();
 const defaultProfileNames = new Map<string, string[]>();
+let examplesChecked = 0;
+let goldenFilesUpdated = 0;
 
 // Validate each harness file
 for (const file of files) {
@@ -130,10 +160,27 @@ for (const file of files) {
 	// Validate with parseHarnessConfig and validateHarness
 	let config: ReturnType<typeof parseHarnessConfig>;
 	try {
-		config = parseHarnessConfig(raw, file);
-		// Run additional validation (includes dry run with defaults)
-		validateHarness(config);
+		config = parseHarnessConfig(raw, file, rawHarnesses);
+		// Run additional validation (includes static analysis and dry run with defaults)
+		for (const warning of validateHarness(config)) {
+			warnings.push({
+				type: "warning",
+				file,
+				message: `${warning.path}: ${warning.message}`,
+			});
+		}
 	} catch (err) {
+		// Report each inheritance conflict (or cycle) separately
+		if (err instanceof HarnessExtendsError) {
+			for (const issue of err.issues) {
+				errors.push({
+					type: "error",
+					file,
+					message: `Inheritance failed: ${issue}`,
+				});
+			}
+			continue;
+		}
 		const errorMsg =
 			err instanceof z.ZodError
 				? err.issues.map((i) => `${i.path.join(".")}: ${i.message}`).join(", ")
@@ -150,6 +197,18 @@ for (const file of files) {
 
 	fileIds.add(derivedId);
 
+	// Run the harness's examples against their golden output files
+	const examples = checkHarnessExamples(config, UPDATE_GOLDEN);
+	examplesChecked += examples.checked;
+	goldenFilesUpdated += examples.updated;
+	for (const message of examples.errors) {
+		errors.push({
+			type: "error",
+			file: relative(resolve(__dirname, ".."), resolve(EXAMPLES_DIR, file)),
+			message,
+		});
+	}
+
 	// Track defaultProfileName for duplicate checking
 	const profileName = config.defaultProfileName;
 	if (!defaultProfileNames.has(profileName)) {
@@ -161,6 +220,44 @@ for (const file of files) {
 	}
 }
 
+// Validate the shared slot fragment library: each fragment must be a
+// complete slot definition on its own (usages only add or override keys)
+for (const [name, fragment] of Object.entries(SLOT_FRAGMENTS)) {
+	if ("use" in fragment) {
+		errors.push({
+			type: "error",
+			file: SLOT_FRAGMENTS_FILE,
+			message: `Fragment "${name}" cannot use another fragment`,
+		});
+		continue;
+	}
+	const result = SlotSchema.safeParse(fragment);
+	if (!result.success) {
+		const issues = result.error.issues
+			.map((i) => `${[name, ...i.path].join(".")}: ${i.message}`)
+			.join(", ");
+		errors.push({
+			type: "error",
+			file: SLOT_FRAGMENTS_FILE,
+			message: `Invalid fragment: ${issues}`,
+		});
+	}
+}
+
+// Validate the output schemas: each must convert to a validator
+// (harness outputs are checked against them during the dry run)
+for (const [name, schema] of Object.entries(OUTPUT_SCHEMAS)) {
+	try {
+		z.fromJSONSchema(schema);
+	} catch (err) {
+		errors.push({
+			type: "error",
+			file: `${OUTPUT_SCHEMAS_DIR}/${name}.json`,
+			message: `Invalid output schema: ${err instanceof Error ? err.message : String(err)}`,
+		});
+	}
+}
+
 // Validate registry consistency
 const registryIds = new Set(EXPECTED_HARNESS_IDS);
 
@@ -204,6 +301,14 @@ if (registryIds.size !== EXPECTED_HARNESS_IDS.length) {
 }
 
 // Report results
+if (warnings.length > 0) {
+	console.warn("\n⚠️  Harness validation warnings\n");
+	for (const warning of warnings) {
+		console.warn(`  ${warning.file}: ${warning.message}`);
+	}
+	console.warn(`\n  Total warnings: ${warnings.length}\n`);
+}
+
 if (errors.length > 0) {
 	console.error("\n❌ Harness validation failed\n");
 
@@ -246,6 +351,11 @@ if (errors.length > 0) {
 }
 
 // Success!
+if (UPDATE_GOLDEN) {
+	console.log(
+		`📝 Updated ${goldenFilesUpdated} golden file${goldenFilesUpdated === 1 ? "" : "s"}`,
+	);
+}
 console.log(
-	`✅ Harness validation passed (${fileIds.size} harness${fileIds.size === 1 ? "" : "es"})`,
+	`✅ Harness validation passed (${fileIds.size} harness${fileIds.size === 1 ? "" : "es"}, ${examplesChecked} example${examplesChecked === 1 ? "" : "s"})`,
 );